@@ -0,0 +1,195 @@
+import { BadRequestException } from "@nestjs/common";
+import { EntityMetadata } from "typeorm";
+import { ColumnMetadata } from "typeorm/metadata/ColumnMetadata";
+import { FilterTerm, FilterTree, FilterValue, isFilterGroup, likeSearchOps, SearchOps } from "./filters";
+
+const numberTypes = ['int', 'int2', 'int4', 'integer', 'smallint', 'mediumint', 'tinyint', 'float', 'float4', 'float8', 'double', 'double precision', 'real', 'number'];
+// kept as strings, as they can exceed the precision of a js number
+const exactNumberTypes = ['int8', 'bigint', 'decimal', 'numeric', 'dec'];
+const dateTypes = ['timestamp', 'timestamptz', 'timestamp without time zone', 'timestamp with time zone', 'datetime', 'datetime2', 'datetimeoffset'];
+const booleanTypes = ['boolean', 'bool'];
+
+export type ColumnKind = 'number' | 'exactNumber' | 'date' | 'day' | 'boolean' | 'uuid' | 'enum' | 'string';
+
+class InvalidValue extends Error {}
+
+/**
+ * Finds the column for a dotted property path, following relations, e.g.
+ * `related.owner.name`.
+ */
+export function findColumn(metadata: EntityMetadata, path: string): ColumnMetadata | undefined {
+  const parts = path.split('.');
+  while (parts.length > 1) {
+    const relation = metadata.findRelationWithPropertyPath(parts[0]);
+    if (!relation) {
+      break;
+    }
+
+    metadata = relation.inverseEntityMetadata;
+    parts.shift();
+  }
+
+  return metadata.findColumnWithPropertyPath(parts.join('.'));
+}
+
+export function columnKind(column: ColumnMetadata): ColumnKind {
+  if (column.enum) {
+    return 'enum';
+  }
+
+  switch (column.type) {
+    case Number:
+      return 'number';
+    case Date:
+      return 'date';
+    case Boolean:
+      return 'boolean';
+  }
+
+  const type = typeof column.type == 'string' ? column.type.toLowerCase() : '';
+  if (numberTypes.includes(type)) {
+    return 'number';
+  } else if (exactNumberTypes.includes(type)) {
+    return 'exactNumber';
+  } else if (dateTypes.includes(type)) {
+    return 'date';
+  } else if (type == 'date') {
+    return 'day';
+  } else if (booleanTypes.includes(type)) {
+    return 'boolean';
+  } else if (type == 'uuid') {
+    return 'uuid';
+  }
+
+  return 'string';
+}
+
+function coerceValue(column: ColumnMetadata, kind: ColumnKind, value: string): FilterValue {
+  switch (kind) {
+    case 'number':
+      if (value.trim() == '' || isNaN(Number(value))) {
+        throw new InvalidValue('expected a number');
+      }
+      return Number(value);
+    case 'exactNumber':
+      if (!/^-?\d+(\.\d+)?$/.test(value)) {
+        throw new InvalidValue('expected a number');
+      }
+      return value;
+    case 'date':
+      if (isNaN(Date.parse(value))) {
+        throw new InvalidValue('expected a date');
+      }
+      return new Date(value);
+    case 'day':
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+        throw new InvalidValue('expected a date formatted as YYYY-MM-DD');
+      }
+      return value;
+    case 'boolean':
+      return parseBoolean(value);
+    case 'uuid':
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+        throw new InvalidValue('expected a UUID');
+      }
+      return value.toLowerCase();
+    case 'enum':
+      const member = column.enum.find(e => e.toString() == value);
+      if (member === undefined) {
+        throw new InvalidValue(`expected one of ${column.enum.join(', ')}`);
+      }
+      return member;
+  }
+
+  return value;
+}
+
+function parseBoolean(value: string) {
+  switch (value.toLowerCase()) {
+    case 'true':
+    case '1':
+      return true;
+    case 'false':
+    case '0':
+      return false;
+  }
+
+  throw new InvalidValue('expected true or false');
+}
+
+function describeTerm(key: string, term: FilterTerm) {
+  const value = Array.isArray(term.value) ? term.value.join(';') : term.value;
+  return `filter "${key}__${term.op}:${value}"`;
+}
+
+// column is only needed for enums, computed attributes have none
+function coerceTerm(key: string, term: FilterTerm, kind: ColumnKind, column: ColumnMetadata | undefined, errors: string[]): FilterTerm {
+  try {
+    if (term.op == SearchOps.ISNULL) {
+      parseBoolean(term.value.toString());
+      return term;
+    }
+
+    if (likeSearchOps.includes(term.op) && kind != 'string') {
+      throw new InvalidValue(`${term.op} is only supported on text attributes`);
+    }
+
+    const value = Array.isArray(term.value)
+      ? term.value.map(v => coerceValue(column, kind, v.toString()))
+      : coerceValue(column, kind, term.value.toString());
+
+    return { ...term, value };
+  } catch (e) {
+    if (!(e instanceof InvalidValue)) {
+      throw e;
+    }
+
+    errors.push(`${describeTerm(key, term)}: ${e.message}`);
+    return term;
+  }
+}
+
+function coerceTree(metadata: EntityMetadata, tree: FilterTree, computed: Map<string, ColumnKind | undefined>, errors: string[]): FilterTree {
+  const coerced: FilterTree = {};
+  for (const [key, node] of Object.entries(tree)) {
+    if (isFilterGroup(node)) {
+      coerced[key] = { op: node.op, value: node.value.map(t => coerceTree(metadata, t, computed, errors)) };
+      continue;
+    }
+
+    if (computed.has(key)) {
+      // computed attributes without a type have nothing to coerce to, their
+      // values are passed as is
+      const kind = computed.get(key);
+      coerced[key] = kind ? coerceTerm(key, node, kind, undefined, errors) : node;
+      continue;
+    }
+
+    const column = findColumn(metadata, key);
+    if (!column) {
+      errors.push(`${describeTerm(key, node)}: unknown attribute`);
+      coerced[key] = node;
+      continue;
+    }
+
+    coerced[key] = coerceTerm(key, node, columnKind(column), column, errors);
+  }
+
+  return coerced;
+}
+
+/**
+ * Coerces filter values to the type of the column they filter on, so that
+ * e.g. `age__gt:abc` is a 400 rather than a database error. Computed
+ * attributes are coerced to their declared type, if any. All invalid terms
+ * are reported together in a BadRequestException.
+ */
+export function coerceFilterTree(metadata: EntityMetadata, tree: FilterTree, computed = new Map<string, ColumnKind | undefined>()): FilterTree {
+  const errors: string[] = [];
+  const coerced = coerceTree(metadata, tree, computed, errors);
+  if (errors.length) {
+    throw new BadRequestException(errors);
+  }
+
+  return coerced;
+}
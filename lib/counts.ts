@@ -0,0 +1,102 @@
+import { ObjectLiteral, SelectQueryBuilder } from "typeorm";
+
+// exact runs COUNT(*), capped stops counting at countCap, estimated reads the
+// row estimate of the Postgres planner and none doesn't count at all
+export type CountStrategy = 'exact' | 'capped' | 'estimated' | 'none';
+
+export interface CountOptions {
+  countStrategy?: CountStrategy,
+  countCap?: number,
+}
+
+export interface Page<Entity> {
+  results: Entity[],
+  // the strategy that produced count, a capped count below the cap is exact
+  countStrategy: CountStrategy,
+  count?: number,
+  hasNext: boolean,
+}
+
+// the distinct primary keys of the query, so to-many joins don't inflate counts
+function primaryKeyQuery<Entity>(qb: SelectQueryBuilder<Entity>) {
+  const columns = qb.expressionMap.mainAlias.metadata.primaryColumns.map(column => `${qb.alias}.${column.propertyPath}`);
+  return qb.clone()
+    .select(columns)
+    .distinct(true)
+    .orderBy()
+    .skip(undefined)
+    .take(undefined)
+    .offset(undefined)
+    .limit(undefined);
+}
+
+async function cappedCount<Entity>(qb: SelectQueryBuilder<Entity>, cap: number) {
+  const [query, parameters] = primaryKeyQuery(qb).limit(cap).getQueryAndParameters();
+  const [row] = await qb.connection.query(`SELECT COUNT(*) AS "count" FROM (${query}) "capped"`, parameters);
+  return parseInt(row.count);
+}
+
+// NOTE: Postgres only, for unfiltered queries the planner's estimate comes
+// from the table's reltuples, which is kept up to date by (auto)vacuum
+async function estimatedCount<Entity>(qb: SelectQueryBuilder<Entity>) {
+  const [query, parameters] = primaryKeyQuery(qb).getQueryAndParameters();
+  const [row] = await qb.connection.query(`EXPLAIN (FORMAT JSON) ${query}`, parameters);
+  const plan = typeof row['QUERY PLAN'] == 'string' ? JSON.parse(row['QUERY PLAN']) : row['QUERY PLAN'];
+  return Math.round(plan[0]['Plan']['Plan Rows']);
+}
+
+function countQuery<Entity>(qb: SelectQueryBuilder<Entity>, options: CountOptions) {
+  switch (options.countStrategy) {
+    case 'capped':
+      return cappedCount(qb, options.countCap || 1000);
+    case 'estimated':
+      return estimatedCount(qb);
+    case 'none':
+      return Promise.resolve(undefined);
+  }
+
+  return qb.getCount();
+}
+
+/**
+ * Counts all results with the given strategy, defaulting to exact. A capped
+ * count below the cap is reported as exact.
+ */
+export async function fetchCount<Entity>(qb: SelectQueryBuilder<Entity>, options: CountOptions): Promise<{ countStrategy: CountStrategy, count?: number }> {
+  const strategy = options.countStrategy || 'exact';
+  const count = await countQuery(qb, { ...options, countStrategy: strategy });
+
+  let countStrategy: CountStrategy = strategy;
+  if (strategy == 'capped' && count < (options.countCap || 1000)) {
+    countStrategy = 'exact';
+  }
+
+  return { countStrategy, count };
+}
+
+/**
+ * Fetches `take` results after `skip` and counts all results with the given
+ * strategy, running both queries concurrently. Without an exact count one
+ * more result is fetched to tell whether there is a next page.
+ */
+export async function fetchPage<Entity extends ObjectLiteral>(qb: SelectQueryBuilder<Entity>, skip: number, take: number, options: CountOptions): Promise<Page<Entity>> {
+  const exact = (options.countStrategy || 'exact') == 'exact';
+
+  // cloned before the page query changes skip and take
+  const countQb = qb.clone();
+  const [entities, { countStrategy, count }] = await Promise.all([
+    qb.skip(skip).take(exact ? take : take + 1).getMany(),
+    fetchCount(countQb, options),
+  ]);
+
+  if (exact) {
+    return { results: entities, countStrategy, count, hasNext: skip + entities.length < count };
+  }
+
+  return {
+    results: entities.slice(0, take),
+    countStrategy,
+    count,
+    hasNext: entities.length > take,
+  };
+}
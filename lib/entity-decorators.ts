@@ -0,0 +1,79 @@
+import { SearchOps } from './filters';
+import type { SortAndFilterConfig } from './sort-and-filter';
+
+export interface FilterableOptions {
+  // operators the attribute accepts, defaults to every operator
+  ops?: `${SearchOps}`[],
+}
+
+interface EntityConfig {
+  sortable: string[],
+  filterable: { [key: string]: `${SearchOps}`[] },
+}
+
+const entityConfigs = new Map<Function, EntityConfig>();
+
+function entityConfig(target: Function): EntityConfig {
+  if (!entityConfigs.has(target)) {
+    entityConfigs.set(target, { sortable: [], filterable: {} });
+  }
+
+  return entityConfigs.get(target);
+}
+
+/**
+ * Marks an entity attribute as sortable by `@SortAndFilter({ entity })`.
+ */
+export function Sortable(): PropertyDecorator {
+  return (target, propertyKey) => {
+    entityConfig(target.constructor).sortable.push(String(propertyKey));
+  };
+}
+
+/**
+ * Marks an entity attribute as filterable by `@SortAndFilter({ entity })`,
+ * with every operator or only the given `ops`.
+ */
+export function Filterable(options: FilterableOptions = {}): PropertyDecorator {
+  return (target, propertyKey) => {
+    entityConfig(target.constructor).filterable[String(propertyKey)] = options.ops || Object.values(SearchOps);
+  };
+}
+
+function filterableMap(filterable: SortAndFilterConfig['filterable']) {
+  if (!Array.isArray(filterable)) {
+    return filterable;
+  }
+
+  return Object.fromEntries(filterable.map(field => [field, Object.values(SearchOps)]));
+}
+
+/**
+ * Merges the attributes decorated on `config.entity`, and the classes it
+ * extends, into the config's whitelists. Attributes listed in the config
+ * itself take precedence, and with an entity nothing else is allowed.
+ */
+export function resolveEntityConfig(config: SortAndFilterConfig): SortAndFilterConfig {
+  if (!config.entity) {
+    return config;
+  }
+
+  const sortable: string[] = [];
+  let filterable: { [key: string]: `${SearchOps}`[] } = {};
+  // walk up from the base class, so subclasses can override operators
+  const classes: Function[] = [];
+  for (let target = config.entity; target && target !== Function.prototype; target = Object.getPrototypeOf(target)) {
+    classes.unshift(target);
+  }
+  for (const target of classes.filter(target => entityConfigs.has(target))) {
+    const decorated = entityConfigs.get(target);
+    sortable.push(...decorated.sortable);
+    filterable = { ...filterable, ...decorated.filterable };
+  }
+
+  return {
+    ...config,
+    sortable: [...new Set([...sortable, ...(config.sortable || [])])],
+    filterable: { ...filterable, ...filterableMap(config.filterable) },
+  };
+}
@@ -0,0 +1,59 @@
+export enum SearchOps {
+  EQUALS     = 'eq',
+  NOTEQUALS  = 'neq',
+  CONTAINS   = 'contains',
+  ICONTAINS  = 'icontains',
+  GT         = 'gt',
+  LT         = 'lt',
+  GTE        = 'gte',
+  LTE        = 'lte',
+  STARTSWITH = 'startswith',
+  ENDSWITH   = 'endswith',
+  IN         = 'in',
+  NOTIN      = 'nin',
+  ISNULL     = 'isnull',
+  BETWEEN    = 'between',
+}
+
+// list values are separated with `;`, as `,` already separates filters
+export const listSearchOps = [SearchOps.IN, SearchOps.NOTIN, SearchOps.BETWEEN];
+
+export const likeSearchOps = [SearchOps.CONTAINS, SearchOps.ICONTAINS, SearchOps.STARTSWITH, SearchOps.ENDSWITH];
+
+export enum FilterGroupOps {
+  AND = 'and',
+  OR  = 'or',
+  NOT = 'not',
+}
+
+// how a term on a to-many relation path matches the related rows, any is the
+// default, all is also true when there are none
+export enum FilterQuantifier {
+  ANY  = 'any',
+  ALL  = 'all',
+  NONE = 'none',
+}
+
+// values are strings as parsed from the query, until coerced to the column type
+export type FilterValue = string | number | boolean | Date;
+
+export interface FilterTerm {
+  op: SearchOps,
+  value: FilterValue | FilterValue[],
+  quantifier?: FilterQuantifier,
+}
+
+// a group nests further trees, its key in the parent tree is only for uniqueness
+export interface FilterGroup {
+  op: FilterGroupOps,
+  value: FilterTree[],
+}
+
+// all entries of a tree are ANDed together
+export interface FilterTree {
+  [key: string]: FilterTerm | FilterGroup,
+}
+
+export function isFilterGroup(node: FilterTerm | FilterGroup): node is FilterGroup {
+  return Object.values(FilterGroupOps).includes(node.op as FilterGroupOps);
+}
@@ -0,0 +1,77 @@
+import { pageLink } from './links';
+import { Paginated, PaginatedFormatter } from './paginators';
+
+export interface JsonApiResource {
+  type: string,
+  id: string,
+  attributes: { [key: string]: any },
+}
+
+export interface JsonApiDocument {
+  data: JsonApiResource[],
+  meta: Paginated<any>['meta'],
+  links: Paginated<any>['links'] & { self: string },
+}
+
+/**
+ * Formats results as a JSON:API document of `type` resources, and reads and
+ * links pages with `page[number]`, `page[size]`, `page[limit]`,
+ * `page[offset]`, `page[after]` and `page[before]`.
+ */
+export function jsonApiFormatter(type: string, idAttribute = 'id'): PaginatedFormatter {
+  return {
+    queryParams: {
+      page: 'page[number]',
+      pageSize: 'page[size]',
+      limit: 'page[limit]',
+      offset: 'page[offset]',
+      after: 'page[after]',
+      before: 'page[before]',
+    },
+    format: (paginated, params): JsonApiDocument => ({
+      data: paginated.results.map(result => {
+        const { [idAttribute]: id, ...attributes } = result as any;
+        return { type, id: `${id}`, attributes };
+      }),
+      meta: paginated.meta,
+      links: {
+        self: pageLink(params, {}),
+        ...paginated.links,
+      },
+    }),
+  };
+}
+
+export interface HalLink {
+  href: string,
+}
+
+export type HalCollection<T> = Paginated<T>['meta'] & {
+  _links: { [rel: string]: HalLink },
+  _embedded: { [rel: string]: T[] },
+};
+
+/**
+ * Formats results as a HAL collection, embedding them under `rel` with the
+ * meta as top level properties.
+ */
+export function halFormatter(rel = 'items'): PaginatedFormatter {
+  return {
+    format: <T>(paginated: Paginated<T>, params): HalCollection<T> => {
+      const links: { [rel: string]: HalLink } = {
+        self: { href: pageLink(params, {}) },
+      };
+      for (const [name, href] of Object.entries(paginated.links)) {
+        if (href) {
+          links[name] = { href };
+        }
+      }
+
+      return {
+        ...paginated.meta,
+        _links: links,
+        _embedded: { [rel]: paginated.results },
+      };
+    },
+  };
+}
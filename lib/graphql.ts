@@ -0,0 +1,194 @@
+import { Injectable, PipeTransform, Type } from '@nestjs/common';
+import { Args, ArgsType, Field, Int, ObjectType } from '@nestjs/graphql';
+import { FindManyOptions, ObjectLiteral, Repository, SelectQueryBuilder } from 'typeorm';
+import { CursorPaginator, isPaginator, LimitOffsetPaginator, PaginateConfig, PaginateParams, parsePaginateQuery } from './paginators';
+import { parseSortAndFilterQuery, SortAndFilterConfig, SortAndFilterParams } from './sort-and-filter';
+
+@ArgsType()
+export class PageArgs {
+  @Field(() => Int, { nullable: true })
+  page?: number;
+
+  @Field(() => Int, { nullable: true })
+  pageSize?: number;
+}
+
+@ArgsType()
+export class LimitOffsetArgs {
+  @Field(() => Int, { nullable: true })
+  limit?: number;
+
+  @Field(() => Int, { nullable: true })
+  offset?: number;
+}
+
+@ArgsType()
+export class ConnectionArgs {
+  @Field(() => Int, { nullable: true })
+  first?: number;
+
+  @Field({ nullable: true })
+  after?: string;
+
+  @Field(() => Int, { nullable: true })
+  last?: number;
+
+  @Field({ nullable: true })
+  before?: string;
+}
+
+@ArgsType()
+export class SortAndFilterArgs {
+  @Field({ nullable: true, description: 'comma separated attributes to sort by, prefix with - to sort descending' })
+  sort?: string;
+
+  @Field({ nullable: true, description: 'filter expression, e.g. name__icontains:bob|age__gt:25' })
+  filter?: string;
+
+  @Field({ nullable: true, description: 'free text search across the searchable attributes' })
+  search?: string;
+}
+
+function paginateArgsType(config: PaginateConfig) {
+  const paginator = config.paginator;
+  if (paginator && isPaginator(paginator, CursorPaginator)) {
+    return ConnectionArgs;
+  }
+
+  if (paginator && isPaginator(paginator, LimitOffsetPaginator)) {
+    return LimitOffsetArgs;
+  }
+
+  return PageArgs;
+}
+
+@Injectable()
+class PaginatePipe implements PipeTransform {
+  constructor(private config: PaginateConfig) {}
+
+  transform(args: any): PaginateParams {
+    // relay style first/last are the page size of the cursor paginator
+    const query = { ...args, pageSize: args.pageSize ?? args.first ?? args.last };
+    for (const key of Object.keys(query)) {
+      if (query[key] == null) {
+        delete query[key];
+      }
+    }
+
+    // NOTE: a connection has no links, they're only built against a
+    // placeholder url
+    const params = parsePaginateQuery(query, 'graphql:', this.config);
+    // last without a before cursor is the last page
+    if (args.last != null && args.first == null && args.before == null) {
+      params.fromEnd = true;
+    }
+
+    return params;
+  }
+}
+
+@Injectable()
+class SortAndFilterPipe implements PipeTransform {
+  constructor(private config: SortAndFilterConfig) {}
+
+  transform(args: any): SortAndFilterParams {
+    return parseSortAndFilterQuery(args, this.config);
+  }
+}
+
+/**
+ * Resolver argument variant of `@Paginate`. Adds `page`/`pageSize`,
+ * `limit`/`offset` or `first`/`after`/`last`/`before` args to the field,
+ * depending on the paginator.
+ */
+export function GqlPaginate(config: PaginateConfig = {}): ParameterDecorator {
+  return Args({ type: () => paginateArgsType(config) }, new PaginatePipe(config));
+}
+
+/**
+ * Resolver argument variant of `@SortAndFilter`, adds `sort` and `filter`
+ * args to the field which take the same syntax as the query params.
+ */
+export function GqlSortAndFilter(config: SortAndFilterConfig = {}): ParameterDecorator {
+  return Args({ type: () => SortAndFilterArgs }, new SortAndFilterPipe(config));
+}
+
+@ObjectType()
+export class PageInfo {
+  @Field()
+  hasNextPage: boolean;
+
+  @Field()
+  hasPreviousPage: boolean;
+
+  @Field({ nullable: true })
+  startCursor: string;
+
+  @Field({ nullable: true })
+  endCursor: string;
+}
+
+export interface Edge<T> {
+  node: T,
+  cursor: string,
+}
+
+export interface Connection<T> {
+  edges: Edge<T>[],
+  pageInfo: PageInfo,
+  totalCount: number,
+}
+
+/**
+ * Makes a Relay connection type for `node`, extend it to name your type:
+ *
+ *   @ObjectType()
+ *   class UserConnection extends Connection(User) {}
+ */
+export function Connection<T>(node: Type<T>): Type<Connection<T>> {
+  @ObjectType(`${node.name}Edge`)
+  class EdgeType implements Edge<T> {
+    @Field(() => node)
+    node: T;
+
+    @Field()
+    cursor: string;
+  }
+
+  @ObjectType({ isAbstract: true })
+  abstract class ConnectionType implements Connection<T> {
+    @Field(() => [EdgeType])
+    edges: Edge<T>[];
+
+    @Field(() => PageInfo)
+    pageInfo: PageInfo;
+
+    @Field(() => Int, { nullable: true, description: 'total number of results, when counted, see countStrategy' })
+    totalCount: number;
+  }
+
+  return ConnectionType as Type<Connection<T>>;
+}
+
+/**
+ * Paginates a query builder or repository like `.paginate` and `paginate`,
+ * returning a Relay connection instead of `Paginated<T>`.
+ */
+export const paginateConnection = async <T extends ObjectLiteral>(source: SelectQueryBuilder<T> | Repository<T>, params: PaginateParams, options?: FindManyOptions<T>): Promise<Connection<T>> => {
+  const paginator = new params.paginator(params);
+  const page = source instanceof SelectQueryBuilder
+    ? await paginator.paginate(source)
+    : await paginator.paginateRepo(source, options);
+
+  const { cursors } = paginator;
+  return {
+    edges: page.results.map((node, i) => ({ node, cursor: cursors[i] })),
+    pageInfo: {
+      hasNextPage: !!page.links.next,
+      hasPreviousPage: !!page.links.prev,
+      startCursor: cursors[0] || null,
+      endCursor: cursors[cursors.length - 1] || null,
+    },
+    totalCount: page.meta.count ?? null,
+  };
+}
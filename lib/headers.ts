@@ -0,0 +1,61 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor, UseInterceptors } from '@nestjs/common';
+import { map, Observable } from 'rxjs';
+import { Paginated } from './paginators';
+
+function isPaginated(value: any): value is Paginated<any> {
+  return value instanceof Object && Array.isArray(value.results) && value.meta instanceof Object && value.links instanceof Object;
+}
+
+// RFC 8288, e.g. <https://example.com/users?page=2>; rel="next"
+function linkHeader(links: Paginated<any>['links']) {
+  return ['first', 'prev', 'next', 'last']
+    .filter(rel => links[rel])
+    .map(rel => `<${links[rel]}>; rel="${rel}"`)
+    .join(', ');
+}
+
+/**
+ * Moves the links and meta of a `Paginated<T>` response into headers, the way
+ * GitHub's API does, and responds with just the results array:
+ *
+ *   Link: <https://example.com/users?page=2&pageSize=10>; rel="next", ...
+ *   X-Total-Count: 42
+ *   X-Page: 1
+ *   X-Page-Size: 10
+ */
+@Injectable()
+export class PaginationHeadersInterceptor implements NestInterceptor {
+  intercept(ctx: ExecutionContext, next: CallHandler): Observable<any> {
+    return next.handle().pipe(map(body => {
+      if (!isPaginated(body)) {
+        return body;
+      }
+
+      // both express and fastify responses have .header()
+      const res = ctx.switchToHttp().getResponse();
+      const { meta, links } = body;
+      const headers = {
+        'Link': linkHeader(links),
+        // a capped or estimated count isn't a total
+        'X-Total-Count': (meta.countStrategy ?? 'exact') == 'exact' ? meta.count : undefined,
+        'X-Page': meta.page,
+        'X-Page-Size': meta.pageSize ?? meta.limit,
+      };
+
+      for (const [name, value] of Object.entries(headers)) {
+        if (value != null && value !== '') {
+          res.header(name, `${value}`);
+        }
+      }
+
+      return body.results;
+    }));
+  }
+}
+
+/**
+ * Responds with pagination headers and a bare results array on this route.
+ */
+export function PaginationHeaders() {
+  return UseInterceptors(PaginationHeadersInterceptor);
+}
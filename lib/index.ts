@@ -1,2 +1,6 @@
+export * from './entity-decorators';
+export * from './formatters';
+export * from './headers';
 export * from './paginators';
+export * from './parsers';
 export * from './sort-and-filter';
\ No newline at end of file
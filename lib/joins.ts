@@ -0,0 +1,92 @@
+import { EntityMetadata, SelectQueryBuilder } from "typeorm";
+
+/**
+ * Left joins a single relation of the given alias, reusing a join that is
+ * already on the query builder (whether added by us or by the caller).
+ */
+export function joinRelation<Entity>(qb: SelectQueryBuilder<Entity>, parentAlias: string, relation: string, select: boolean) {
+  const existing = qb.expressionMap.joinAttributes.find(join => {
+    return join.parentAlias == parentAlias && join.relationPropertyPath == relation;
+  });
+  if (existing) {
+    const alias = existing.alias.name;
+    if (select && !qb.expressionMap.selects.some(s => s.selection == alias)) {
+      qb.addSelect(alias);
+    }
+
+    return alias;
+  }
+
+  const alias = `${parentAlias}__${relation}`;
+  if (select) {
+    qb.leftJoinAndSelect(`${parentAlias}.${relation}`, alias);
+  } else {
+    qb.leftJoin(`${parentAlias}.${relation}`, alias);
+  }
+
+  return alias;
+}
+
+/**
+ * Joins every relation of a dotted relation path such as `author.company`,
+ * returning the alias of the last one.
+ */
+export function joinRelationPath<Entity>(qb: SelectQueryBuilder<Entity>, dottedPath: string, select: boolean) {
+  let alias = qb.alias;
+  let metadata = qb.expressionMap.mainAlias.metadata;
+
+  for (const part of dottedPath.split('.')) {
+    const relation = metadata.findRelationWithPropertyPath(part);
+    if (!relation) {
+      throw new Error(`${part} is not a relation of ${metadata.name}`);
+    }
+
+    alias = joinRelation(qb, alias, part, select);
+    metadata = relation.inverseEntityMetadata;
+  }
+
+  return alias;
+}
+
+/**
+ * Whether a dotted property path traverses a one-to-many or many-to-many
+ * relation, so that joining it yields several rows per entity.
+ */
+export function isToManyPath(metadata: EntityMetadata, dottedPath: string) {
+  for (const part of dottedPath.split('.').slice(0, -1)) {
+    const relation = metadata.findRelationWithPropertyPath(part);
+    if (!relation) {
+      return false;
+    }
+
+    if (relation.isOneToMany || relation.isManyToMany) {
+      return true;
+    }
+    metadata = relation.inverseEntityMetadata;
+  }
+
+  return false;
+}
+
+/**
+ * Resolves a dotted property path such as `author.company.country.name` into
+ * an `alias.property` expression, joining each relation along the way once.
+ * Path segments that are not relations (e.g. embeddeds) are left as is.
+ */
+export function joinPropertyPath<Entity>(qb: SelectQueryBuilder<Entity>, dottedPath: string, select: boolean) {
+  const parts = dottedPath.split('.');
+  let alias = qb.alias;
+  let metadata = qb.expressionMap.mainAlias.metadata;
+
+  while (parts.length > 1) {
+    const relation = metadata.findRelationWithPropertyPath(parts[0]);
+    if (!relation) {
+      break;
+    }
+
+    alias = joinRelation(qb, alias, parts.shift(), select);
+    metadata = relation.inverseEntityMetadata;
+  }
+
+  return `${alias}.${parts.join('.')}`;
+}
@@ -0,0 +1,54 @@
+import { URL } from "url";
+import { PaginateParams } from "./paginators";
+
+// repeated params (?a=1&a=2) stay repeated, nested objects parsed by qs
+// (?a[b]=1) are written back in bracket notation
+function addOriginalQueryParams(url: URL, query: any, prefix?: string) {
+  for (const [k, v] of Object.entries(query || {})) {
+    const key = prefix ? `${prefix}[${k}]` : k;
+    if (Array.isArray(v)) {
+      v.forEach(item => url.searchParams.append(key, `${item}`));
+    } else if (v instanceof Object) {
+      addOriginalQueryParams(url, v, key);
+    } else if (v != null) {
+      url.searchParams.append(key, `${v}`);
+    }
+  }
+}
+
+/**
+ * Reads a query param by name, bracketed names like `page[number]` are looked
+ * up both as is (fastify, querystring) and nested (express, qs).
+ */
+export function queryValue(query: any, name: string) {
+  if (name in query) {
+    return query[name];
+  }
+
+  let value = query;
+  for (const key of name.split(/[\[\]]+/).filter(k => k)) {
+    value = value instanceof Object ? value[key] : undefined;
+  }
+
+  return value;
+}
+
+/**
+ * Link to another page of the current request, replacing the `set` params
+ * and dropping the `unset` ones. Params are renamed by the formatter's
+ * `queryParams`, and a relative base url makes a relative link.
+ */
+export function pageLink(params: PaginateParams, set: { [key: string]: string }, unset: string[] = []) {
+  const names = params.formatter?.queryParams || {};
+  const relative = params.baseUrl.startsWith('/');
+  const url = new URL(params.baseUrl, 'http://localhost');
+  addOriginalQueryParams(url, params.query);
+  for (const key of unset) {
+    url.searchParams.delete(names[key] || key);
+  }
+  for (const [key, value] of Object.entries(set)) {
+    url.searchParams.set(names[key] || key, value);
+  }
+
+  return relative ? url.pathname + url.search : url.toString();
+}
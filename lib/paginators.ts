@@ -1,47 +1,134 @@
-import { createParamDecorator, ExecutionContext } from "@nestjs/common";
-import { FindManyOptions, ObjectLiteral, Repository, SelectQueryBuilder } from "typeorm";
-import { URL } from "url";
+import { BadRequestException, createParamDecorator, ExecutionContext } from "@nestjs/common";
+import { Brackets, FindManyOptions, FindOptionsUtils, ObjectLiteral, QueryFailedError, Repository, SelectQueryBuilder } from "typeorm";
+import { CountStrategy, fetchCount, fetchPage } from "./counts";
+import { joinPropertyPath } from "./joins";
+import { pageLink, queryValue } from "./links";
+import { requestBaseUrl } from "./request";
+
+export type { CountStrategy } from "./counts";
 
 export interface PaginateParams {
   page?: number,
   pageSize?: number,
+  offset?: number,
+  after?: string,
+  before?: string,
+  // without a cursor, the cursor paginator pages backwards from the end
+  fromEnd?: boolean,
   baseUrl: string,
   query: any,
-  paginator: new(params: PaginateParams) => Paginator,
+  paginator: PaginatorType,
+  formatter?: PaginatedFormatter,
+  countStrategy?: CountStrategy,
+  countCap?: number,
 };
 
 export interface PaginateConfig {
   maxPageSize?: number,
   defaultPageSize?: number,
-  paginator?: new(params: PaginateParams) => Paginator,
+  paginator?: PaginatorType,
+  // build links from the X-Forwarded-Proto, X-Forwarded-Host and
+  // X-Forwarded-Prefix headers set by a proxy
+  trustProxy?: boolean,
+  // protocol, host and optional prefix to build links from instead of the
+  // request's, e.g. https://api.example.com
+  baseUrl?: string,
+  // emit links without protocol and host, e.g. /users?page=2
+  relativeLinks?: boolean,
+  // reshapes the response, e.g. jsonApiFormatter() or halFormatter()
+  formatter?: PaginatedFormatter,
+  // how results are counted, defaults to exact for paged and limit offset
+  // pagination, the cursor paginator only counts when it's set
+  countStrategy?: CountStrategy,
+  // the most results the capped strategy counts, defaults to 1000
+  countCap?: number,
 };
 
-export const Paginate = createParamDecorator<PaginateConfig>((config: PaginateConfig, ctx: ExecutionContext): PaginateParams => {
-  const req = ctx.switchToHttp().getRequest();
-  const baseUrl = `${req.protocol}://${req.get('host')}${req.baseUrl}${req.path}`;
+// a Paginator subclass, which knows how to read its own query params
+export interface PaginatorType {
+  new(params: PaginateParams): Paginator,
+  parseQuery(query: any, config: PaginateConfig): Partial<PaginateParams>,
+};
+
+export interface PaginatedFormatter {
+  // query param names to read and link with instead of the paginator's own,
+  // e.g. { page: 'page[number]', pageSize: 'page[size]' }
+  queryParams?: { [param: string]: string },
+  format<T>(paginated: Paginated<T>, params: PaginateParams): any,
+};
+
+let defaultConfig: PaginateConfig = {};
+
+/**
+ * Sets config defaults for every `@Paginate` decorator, e.g. the `baseUrl`.
+ * Options passed to a decorator take precedence.
+ */
+export function setPaginateDefaults(config: PaginateConfig) {
+  defaultConfig = { ...config };
+}
+
+/**
+ * Whether a paginator is the given one or a subclass of it.
+ */
+export function isPaginator(paginator: PaginatorType, base: PaginatorType) {
+  return paginator === base || paginator.prototype instanceof base;
+}
+
+/**
+ * Reads PaginateParams from query params, links to further pages are built
+ * from `baseUrl` and the original `query`.
+ */
+export function parsePaginateQuery(query: any, baseUrl: string, options?: PaginateConfig): PaginateParams {
+  const config = { ...defaultConfig, ...options };
   const paginator = config.paginator || PagedPaginator;
+  const { formatter, countStrategy, countCap } = config;
 
-  let pageSize = parseInt(req.query.pageSize) || config.defaultPageSize || 10;
-  if (config.maxPageSize) {
-    pageSize = Math.min(pageSize, config.maxPageSize)
+  let paginatorQuery = query;
+  if (formatter?.queryParams) {
+    paginatorQuery = { ...query };
+    for (const [param, name] of Object.entries(formatter.queryParams)) {
+      paginatorQuery[param] = queryValue(query, name);
+    }
   }
 
   return {
-    page: parseInt(req.query.page) || 1,
-    pageSize,
+    ...paginator.parseQuery(paginatorQuery, config),
     baseUrl,
-    query: req.query,
+    query,
     paginator,
+    formatter,
+    countStrategy,
+    countCap,
   };
+}
+
+export const Paginate = createParamDecorator<PaginateConfig>((config: PaginateConfig, ctx: ExecutionContext): PaginateParams => {
+  const req = ctx.switchToHttp().getRequest();
+  return parsePaginateQuery(req.query, requestBaseUrl(req, { ...defaultConfig, ...config }), config);
 });
 
+function parsePageSize(value: any, config: PaginateConfig) {
+  let pageSize = parseInt(value) || config.defaultPageSize || 10;
+  if (config.maxPageSize) {
+    pageSize = Math.min(pageSize, config.maxPageSize)
+  }
+
+  return pageSize;
+}
+
 export interface Paginated<T> {
   results: T[],
   meta: {
-    pageCount: number,
-    count: number,
-    page: number,
-    pageSize: number,
+    pageCount?: number,
+    count?: number,
+    page?: number,
+    pageSize?: number,
+    limit?: number,
+    offset?: number,
+    // how count was counted, a capped or estimated count is a lower bound or
+    // a guess, and there's no count nor pageCount without one
+    countStrategy?: CountStrategy,
+    hasNext?: boolean,
   },
   links: {
     first: string,
@@ -53,20 +140,86 @@ export interface Paginated<T> {
 
 export abstract class Paginator {
   protected params: PaginateParams;
+  // opaque cursors of the results returned by the last paginate call, used to
+  // build GraphQL connections
+  cursors: string[] = [];
 
   constructor(params: PaginateParams) {
     this.params = params;
   }
 
+  static parseQuery(query: any, config: PaginateConfig): Partial<PaginateParams> {
+    return {
+      pageSize: parsePageSize(query.pageSize, config),
+    };
+  }
+
   abstract paginate<Entity extends ObjectLiteral>(qb: SelectQueryBuilder<Entity>): Promise<Paginated<Entity>>;
   abstract paginateRepo<Entity extends ObjectLiteral>(repo: Repository<Entity>, options?: FindManyOptions<Entity>): Promise<Paginated<Entity>>;
 }
 
+function flattenOrder(order: ObjectLiteral, prefix = ''): [string, 'ASC' | 'DESC'][] {
+  const flattened: [string, 'ASC' | 'DESC'][] = [];
+  for (const [key, dir] of Object.entries(order || {})) {
+    if (dir instanceof Object) {
+      flattened.push(...flattenOrder(dir, `${prefix}${key}.`));
+    } else {
+      flattened.push([`${prefix}${key}`, dir == 'DESC' || dir == -1 ? 'DESC' : 'ASC']);
+    }
+  }
+
+  return flattened;
+}
+
+/**
+ * Mirrors what repo.find() does, but as a query builder for the paginators to
+ * work with. Unlike TypeORM 0.2 this also supports ordering across relations
+ * with nested `order` objects, e.g. `{ related: { name: 'ASC' } }`.
+ */
+function findOptionsQueryBuilder<Entity>(repo: Repository<Entity>, options?: FindManyOptions<Entity>) {
+  const { order, ...rest } = options || {};
+  const qb = repo.createQueryBuilder(FindOptionsUtils.extractFindManyOptionsAlias(rest) || repo.metadata.name);
+  FindOptionsUtils.applyFindManyOptionsOrConditionsToQueryBuilder(qb, rest);
+  if (rest.loadEagerRelations !== false) {
+    FindOptionsUtils.joinEagerRelations(qb, qb.alias, repo.metadata);
+  }
+
+  for (const [path, dir] of flattenOrder(order)) {
+    qb.addOrderBy(joinPropertyPath(qb, path, true), dir);
+  }
+
+  return qb;
+}
+
+// NOTE: rows that sort equal have no defined order, so without a tiebreaker
+// they can show up on two pages or none. The primary key is appended as the
+// final sort key to make the order total.
+function orderByPrimaryKeys<Entity>(qb: SelectQueryBuilder<Entity>) {
+  if (!qb.expressionMap.mainAlias.hasMetadata) {
+    return qb;
+  }
+
+  for (const column of qb.expressionMap.mainAlias.metadata.primaryColumns) {
+    const expression = `${qb.alias}.${column.propertyPath}`;
+    if (!(expression in qb.expressionMap.orderBys)) {
+      qb.addOrderBy(expression, 'ASC');
+    }
+  }
+
+  return qb;
+}
+
+function offsetCursors(offset: number, length: number) {
+  return Array.from({ length }, (_, i) => encodeCursor([(offset + i).toString()]));
+}
+
 export class PagedPaginator extends Paginator {
   private page: number;
   private pageSize: number;
   private pageCount: number;
   private count: number;
+  private countStrategy: CountStrategy;
+  private hasNext: boolean;
 
   constructor(params: PaginateParams) {
     super(params);
@@ -74,18 +227,25 @@ export class PagedPaginator extends Paginator {
     this.page = this.params.page;
   }
 
+  static parseQuery(query: any, config: PaginateConfig): Partial<PaginateParams> {
+    return {
+      page: parseInt(query.page) || 1,
+      pageSize: parsePageSize(query.pageSize, config),
+    };
+  }
+
   async paginate<Entity extends ObjectLiteral>(qb: SelectQueryBuilder<Entity>) {
     const skip = (this.page - 1) * this.pageSize;
 
-    const [results, count] = await qb
-      .skip(skip)
-      .take(this.pageSize)
-      .getManyAndCount();
+    const { results, count, countStrategy, hasNext } = await fetchPage(orderByPrimaryKeys(qb), skip, this.pageSize, this.params);
 
     this.count = count;
-    this.pageCount = Math.floor((count - 1) / this.pageSize) + 1;
-    if (count == 0) {
-      this.pageCount = 0;
+    this.countStrategy = countStrategy;
+    this.hasNext = hasNext;
+    this.cursors = offsetCursors(skip, results.length);
+    this.pageCount = undefined;
+    if (countStrategy == 'exact') {
+      this.pageCount = count == 0 ? 0 : Math.floor((count - 1) / this.pageSize) + 1;
     }
 
     const links = this.links();
@@ -99,98 +259,331 @@ export class PagedPaginator extends Paginator {
   }
 
   async paginateRepo<Entity extends ObjectLiteral>(repo: Repository<Entity>, options?: FindManyOptions<Entity>) {
-    const skip = (this.page - 1) * this.pageSize;
+    return this.paginate(findOptionsQueryBuilder(repo, options));
+  }
 
-    const [results, count] = await repo.findAndCount({
-      skip,
-      take: this.pageSize,
-      ...options
+  private link(page: number) {
+    return pageLink(this.params, {
+      page: page.toString(),
+      pageSize: this.pageSize.toString(),
     });
+  }
 
-    this.count = count;
-    this.pageCount = Math.floor((count - 1) / this.pageSize) + 1;
-    if (count == 0) {
-      this.pageCount = 0;
+  private links() {
+    return {
+      first: this.link(1),
+      next: this.hasNext ? this.link(this.page + 1) : null,
+      prev: this.page > 1 ? this.link(this.page - 1) : null,
+      // the last page is unknown without an exact count
+      last: this.pageCount != null ? this.link(Math.max(this.pageCount, 1)) : null,
+    };
+  }
+
+  private meta() {
+    return {
+      pageCount: this.pageCount,
+      pageSize: this.pageSize,
+      page: this.page,
+      count: this.count,
+      countStrategy: this.countStrategy,
+      hasNext: this.hasNext,
     }
+  }
+}
 
-    const links = this.links();
-    const meta = this.meta();
+export class LimitOffsetPaginator extends Paginator {
+  private limit: number;
+  private offset: number;
+  private count: number;
+  private countStrategy: CountStrategy;
+  private hasNext: boolean;
 
+  constructor(params: PaginateParams) {
+    super(params);
+    this.limit = this.params.pageSize;
+    this.offset = this.params.offset;
+  }
+
+  static parseQuery(query: any, config: PaginateConfig): Partial<PaginateParams> {
     return {
-      results,
-      meta,
-      links,
+      pageSize: parsePageSize(query.limit, config),
+      offset: Math.max(parseInt(query.offset) || 0, 0),
     };
   }
 
-  private links() {
-    function _addOriginalQueryParams(url: URL, query: any) {
-      for (const [k, v] of Object.entries(query)) {
-        url.searchParams.set(k, v.toString());
-      }
-    }
+  async paginate<Entity extends ObjectLiteral>(qb: SelectQueryBuilder<Entity>) {
+    const { results, count, countStrategy, hasNext } = await fetchPage(orderByPrimaryKeys(qb), this.offset, this.limit, this.params);
 
-    const first = new URL(this.params.baseUrl);
-    _addOriginalQueryParams(first, this.params.query);
-    first.searchParams.set('page', '1');
-    first.searchParams.set('pageSize', this.pageSize.toString());
+    this.count = count;
+    this.countStrategy = countStrategy;
+    this.hasNext = hasNext;
+    this.cursors = offsetCursors(this.offset, results.length);
 
-    const last = new URL(this.params.baseUrl);
-    _addOriginalQueryParams(last, this.params.query);
-    last.searchParams.set('page', Math.max(this.pageCount, 1).toString());
-    last.searchParams.set('pageSize', this.pageSize.toString());
+    return {
+      results,
+      meta: this.meta(),
+      links: this.links(),
+    };
+  }
 
+  async paginateRepo<Entity extends ObjectLiteral>(repo: Repository<Entity>, options?: FindManyOptions<Entity>) {
+    return this.paginate(findOptionsQueryBuilder(repo, options));
+  }
+
+  private link(offset: number) {
+    return pageLink(this.params, {
+      offset: offset.toString(),
+      limit: this.limit.toString(),
+    });
+  }
+
+  private links() {
     let prev = null;
-    if (this.page > 1) {
-      prev = new URL(this.params.baseUrl);
-      _addOriginalQueryParams(prev, this.params.query);
-      prev.searchParams.set('page', (this.page - 1).toString());
-      prev.searchParams.set('pageSize', this.pageSize.toString());
-      prev = prev.toString()
+    if (this.offset > 0) {
+      prev = this.link(Math.max(this.offset - this.limit, 0));
     }
 
     let next = null;
-    if (this.page < this.pageCount) {
-      next = new URL(this.params.baseUrl);
-      _addOriginalQueryParams(next, this.params.query);
-      next.searchParams.set('page', (this.page + 1).toString());
-      next.searchParams.set('pageSize', this.pageSize.toString());
-      next = next.toString()    
+    if (this.hasNext) {
+      next = this.link(this.offset + this.limit);
+    }
+
+    let last = null;
+    if (this.countStrategy == 'exact') {
+      last = this.link(Math.max(this.count - this.limit, 0));
     }
 
     return {
-      first: first.toString(),
-      next: next,
-      prev: prev,
-      last: last.toString()
+      first: this.link(0),
+      next,
+      prev,
+      last,
     };
   }
 
   private meta() {
     return {
-      pageCount: this.pageCount,
-      pageSize: this.pageSize,
-      page: this.page,
+      limit: this.limit,
+      offset: this.offset,
       count: this.count,
+      countStrategy: this.countStrategy,
+      hasNext: this.hasNext,
     }
   }
 }
 
+interface CursorKey {
+  // what the query is ordered by, a column or a selected alias
+  orderBy: string,
+  // what the keyset condition compares, the alias's selection for aliases
+  expression: string,
+  order: 'ASC' | 'DESC',
+  nulls: 'NULLS FIRST' | 'NULLS LAST',
+}
+
+// keyset pagination needs a total order, which the primary key tiebreaker gives
+function cursorKeys<Entity>(qb: SelectQueryBuilder<Entity>): CursorKey[] {
+  const { selects } = qb.expressionMap;
+  return Object.entries(orderByPrimaryKeys(qb).expressionMap.orderBys).map(([orderBy, order]) => {
+    // a selected alias, e.g. a computed sort, can't be compared in WHERE
+    const select = selects.find(select => select.aliasName == orderBy);
+    const expression = select ? `(${select.selection})` : orderBy;
+    const direction = typeof order == 'string' ? order : order.order;
+    // Postgres sorts NULLs after every value unless told otherwise
+    const nulls = typeof order != 'string' && order.nulls || (direction == 'ASC' ? 'NULLS LAST' : 'NULLS FIRST');
+    return { orderBy, expression, order: direction, nulls };
+  });
+}
+
+function reverseKey(key: CursorKey): CursorKey {
+  return {
+    orderBy: key.orderBy,
+    expression: key.expression,
+    order: key.order == 'ASC' ? 'DESC' : 'ASC',
+    nulls: key.nulls == 'NULLS LAST' ? 'NULLS FIRST' : 'NULLS LAST',
+  };
+}
+
+function encodeCursor(values: string[]) {
+  return Buffer.from(JSON.stringify(values)).toString('base64');
+}
+
+function decodeCursor(cursor: string, length: number): string[] {
+  let values: any;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64').toString());
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (!Array.isArray(values) || values.length != length || values.some(value => value !== null && typeof value != 'string')) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  return values;
+}
+
+// Postgres errors of casting text to the type of a key: invalid text
+// representation, invalid datetime format, datetime field overflow and
+// numeric value out of range
+const castErrorCodes = ['22P02', '22007', '22008', '22003'];
+
+function isCastError(error: Error) {
+  return error instanceof QueryFailedError && castErrorCodes.includes(error.driverError?.code);
+}
+
+// the rows sorting after the cursor value in the key's order, NULLs included
+function afterCondition(key: CursorKey, param: string, value: string) {
+  if (value === null) {
+    return key.nulls == 'NULLS FIRST' ? `${key.expression} IS NOT NULL` : 'FALSE';
+  }
+
+  const op = key.order == 'ASC' ? '>' : '<';
+  if (key.nulls == 'NULLS LAST') {
+    return `(${key.expression} ${op} :${param} OR ${key.expression} IS NULL)`;
+  }
+
+  return `${key.expression} ${op} :${param}`;
+}
+
+// builds (k0 > v0) OR (k0 = v0 AND k1 > v1) OR ... honoring each key's order
+function keysetCondition(keys: CursorKey[], values: string[]) {
+  return new Brackets(outer => {
+    keys.forEach((key, i) => {
+      outer.orWhere(new Brackets(inner => {
+        for (let j = 0; j < i; ++j) {
+          const equals = values[j] === null ? `${keys[j].expression} IS NULL` : `${keys[j].expression} = :cursorValue${j}`;
+          inner.andWhere(equals, { [`cursorValue${j}`]: values[j] });
+        }
+
+        inner.andWhere(afterCondition(key, `cursorValue${i}`, values[i]), { [`cursorValue${i}`]: values[i] });
+      }));
+    });
+  });
+}
+
+export class CursorPaginator extends Paginator {
+  private pageSize: number;
+
+  constructor(params: PaginateParams) {
+    super(params);
+    this.pageSize = this.params.pageSize;
+  }
+
+  static parseQuery(query: any, config: PaginateConfig): Partial<PaginateParams> {
+    return {
+      pageSize: parsePageSize(query.pageSize, config),
+      after: query.after,
+      before: query.before,
+    };
+  }
+
+  async paginate<Entity extends ObjectLiteral>(qb: SelectQueryBuilder<Entity>) {
+    const backwards = !!this.params.before || (this.params.fromEnd && !this.params.after);
+    const cursor = backwards ? this.params.before : this.params.after;
+
+    // paging backwards walks the reversed order, NULLs included
+    let keys = cursorKeys(qb);
+    const values = cursor && decodeCursor(cursor, keys.length);
+    if (backwards) {
+      keys = keys.map(reverseKey);
+      qb.orderBy(Object.fromEntries(keys.map(key => [key.orderBy, { order: key.order, nulls: key.nulls }])));
+    }
+
+    // counted before the keyset condition narrows the query
+    const { countStrategy } = this.params;
+    const counted = countStrategy && countStrategy != 'none'
+      ? fetchCount(qb.clone(), this.params)
+      : Promise.resolve(undefined);
+
+    if (values) {
+      qb.andWhere(keysetCondition(keys, values));
+    }
+
+    // NOTE: cursor values are read back as text so they round trip exactly,
+    // e.g. timestamps keep their microseconds.
+    keys.forEach((key, i) => qb.addSelect(`CAST(${key.expression} AS TEXT)`, `cursor_${i}`));
+
+    const [{ entities, raw }, count] = await Promise.all([
+      qb.take(this.pageSize + 1).getRawAndEntities().catch(error => {
+        // a tampered cursor can hold values the keys can't be cast to
+        if (cursor && isCastError(error)) {
+          throw new BadRequestException('Invalid cursor');
+        }
+        throw error;
+      }),
+      counted,
+    ]);
+
+    // joined rows of the same entity share the same cursor, so collapse them
+    const cursors: string[] = [];
+    for (const row of raw) {
+      const rowCursor = encodeCursor(keys.map((_, i) => row[`cursor_${i}`]));
+      if (cursors[cursors.length - 1] != rowCursor) {
+        cursors.push(rowCursor);
+      }
+    }
+
+    const hasMore = entities.length > this.pageSize;
+    const results = entities.slice(0, this.pageSize);
+    const resultCursors = cursors.slice(0, this.pageSize);
+    if (backwards) {
+      results.reverse();
+      resultCursors.reverse();
+    }
+
+    this.cursors = resultCursors;
+
+    const hasNext = backwards ? !!cursor : hasMore;
+    const hasPrev = backwards ? hasMore : !!cursor;
+
+    return {
+      results,
+      meta: {
+        pageSize: this.pageSize,
+        ...count,
+      },
+      links: {
+        first: this.link({}),
+        next: hasNext && results.length ? this.link({ after: resultCursors[resultCursors.length - 1] }) : null,
+        prev: hasPrev && results.length ? this.link({ before: resultCursors[0] }) : null,
+        last: null,
+      },
+    };
+  }
+
+  async paginateRepo<Entity extends ObjectLiteral>(repo: Repository<Entity>, options?: FindManyOptions<Entity>) {
+    return this.paginate(findOptionsQueryBuilder(repo, options));
+  }
+
+  private link(cursor: { after?: string, before?: string }) {
+    return pageLink(this.params, {
+      ...cursor,
+      pageSize: this.pageSize.toString(),
+    }, ['after', 'before']);
+  }
+}
+
+function format<T>(paginated: Paginated<T>, params: PaginateParams) {
+  return params.formatter ? params.formatter.format(paginated, params) : paginated;
+}
+
 declare module 'typeorm/query-builder/SelectQueryBuilder' {
   interface SelectQueryBuilder<Entity> {
-    paginate(params: PaginateParams): Promise<Paginated<Entity>>;
+    // R is the shape of the response when using a formatter
+    paginate<R = Paginated<Entity>>(params: PaginateParams): Promise<R>;
   }
 }
 
 SelectQueryBuilder.prototype.paginate = async function<Entity>(this: SelectQueryBuilder<Entity>, params: PaginateParams) {
   const paginator = new params.paginator(params);
-  return paginator.paginate(this);
+  return format(await paginator.paginate(this), params);
 }
 
 // don't ask
 type NoInfer<T> = T extends infer S ? S : never;
 
-export const paginate = async <T extends ObjectLiteral>(repo: Repository<T>, params: PaginateParams, options?: FindManyOptions<NoInfer<T>>): Promise<Paginated<T>> => {
+export const paginate = async <T extends ObjectLiteral, R = Paginated<T>>(repo: Repository<T>, params: PaginateParams, options?: FindManyOptions<NoInfer<T>>): Promise<R> => {
   const paginator = new params.paginator(params);
-  return await paginator.paginateRepo(repo, options as FindManyOptions<T>);
+  return format(await paginator.paginateRepo(repo, options as FindManyOptions<T>), params);
 }
@@ -0,0 +1,157 @@
+import { listSearchOps, SearchOps } from './filters';
+import { SortAndFilterError, SortAndFilterParser } from './sort-and-filter';
+
+// a filter in object form, e.g. { name: { icontains: 'bob' }, $or: [...] }
+type FilterObject = { [key: string]: any };
+
+function quote(value: any) {
+  return `"${`${value}`.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function termString(field: string, op: string, value: any, errors: SortAndFilterError[]) {
+  // op may carry a quantifier, e.g. eq__all
+  const [baseOp] = op.split('__');
+  if (value === null && baseOp == SearchOps.EQUALS) {
+    return `${field}__isnull${op.slice(baseOp.length)}:true`;
+  }
+
+  if (typeof value == 'string' && listSearchOps.includes(baseOp as SearchOps)) {
+    value = value.split(',');
+  }
+
+  if (Array.isArray(value)) {
+    return `${field}__${op}:${value.map(quote).join(';')}`;
+  }
+
+  if (value instanceof Object || value === undefined) {
+    errors.push({ param: 'filter', field, operator: op, message: `filter ${field} ${op}: expected a value` });
+    return '';
+  }
+
+  return `${field}__${op}:${quote(value)}`;
+}
+
+/**
+ * Writes a filter object in the filter query param syntax, with every value
+ * quoted. Entries are ANDed, `$and`, `$or` and `$not` group them.
+ */
+function filterString(filter: FilterObject, errors: SortAndFilterError[]): string {
+  const terms: string[] = [];
+  for (const [key, value] of Object.entries(filter)) {
+    if (key == '$and' || key == '$or') {
+      const branches = [].concat(value)
+        .map((branch: any) => branch instanceof Object ? filterString(branch, errors) : '')
+        .filter(branch => branch);
+      if (branches.length) {
+        terms.push(`(${branches.join(key == '$or' ? '|' : ',')})`);
+      }
+    } else if (key == '$not') {
+      const negated = value instanceof Object ? filterString(value, errors) : '';
+      if (negated) {
+        terms.push(`!(${negated})`);
+      }
+    } else if (value instanceof Object && !Array.isArray(value)) {
+      for (const [op, opValue] of Object.entries(value)) {
+        terms.push(termString(key, op, opValue, errors));
+      }
+    } else {
+      terms.push(termString(key, Array.isArray(value) ? SearchOps.IN : SearchOps.EQUALS, value, errors));
+    }
+  }
+
+  return terms.filter(term => term).join(',');
+}
+
+// express parses brackets into nested objects, fastify leaves them in the keys
+function bracketParam(query: any, param: string) {
+  if (query[param] != null) {
+    return query[param];
+  }
+
+  let nested: any;
+  for (const [key, value] of Object.entries(query)) {
+    if (!key.startsWith(`${param}[`)) {
+      continue;
+    }
+
+    const path = key.slice(param.length).split(/[\[\]]+/).filter(part => part);
+    if (!path.length) {
+      nested = value;
+      continue;
+    }
+
+    nested = nested instanceof Object ? nested : {};
+    let target = nested;
+    for (const part of path.slice(0, -1)) {
+      target = target[part] = target[part] instanceof Object ? target[part] : {};
+    }
+    target[path[path.length - 1]] = value;
+  }
+
+  return nested;
+}
+
+/**
+ * Reads `filter[name][icontains]=bob&filter[status]=active` style filters,
+ * where the operator defaults to `eq`, and `sort[]=-name&sort[]=email`.
+ * Terms are ANDed, the filter query param syntax still works alongside.
+ */
+export function bracketParser(): SortAndFilterParser {
+  return {
+    parse: (query, errors) => {
+      const parsed = { ...query };
+
+      const sort = bracketParam(query, 'sort');
+      if (sort != null) {
+        parsed.sort = [].concat(sort).join(',');
+      }
+
+      const filter = bracketParam(query, 'filter');
+      if (filter instanceof Object) {
+        parsed.filter = filterString(filter, errors);
+      }
+
+      return parsed;
+    },
+  };
+}
+
+function parseJson(query: any, param: 'sort' | 'filter', errors: SortAndFilterError[]) {
+  try {
+    return JSON.parse(query[param]);
+  } catch {
+    errors.push({ param, field: param, message: `${param} is not valid JSON` });
+    return undefined;
+  }
+}
+
+/**
+ * Reads JSON encoded filters, e.g.
+ * `filter={"name":{"icontains":"bob"},"$or":[{"status":"active"},{"age":{"gt":30}}]}`,
+ * and sorts such as `sort=["-name","email"]`. Arrays filter with `in`, and
+ * `null` with `isnull`.
+ */
+export function jsonParser(): SortAndFilterParser {
+  return {
+    parse: (query, errors) => {
+      const parsed = { ...query };
+
+      if (typeof query.sort == 'string' && query.sort.startsWith('[')) {
+        const sort = parseJson(query, 'sort', errors);
+        parsed.sort = Array.isArray(sort) ? sort.join(',') : undefined;
+      }
+
+      if (typeof query.filter == 'string') {
+        const filter = parseJson(query, 'filter', errors);
+        parsed.filter = undefined;
+        if (filter instanceof Object && !Array.isArray(filter)) {
+          parsed.filter = filterString(filter, errors);
+        } else if (filter !== undefined) {
+          errors.push({ param: 'filter', field: 'filter', message: 'filter is not a JSON object' });
+        }
+      }
+
+      return parsed;
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { PaginateConfig } from './paginators';
+
+// proxies may append to these headers, the first value is the client's
+function forwardedHeader(req: any, name: string): string | undefined {
+  const value = req.headers[name];
+  return value ? `${value}`.split(',')[0].trim() : undefined;
+}
+
+/**
+ * The url of the current request without its query string, for building
+ * links. Works with both Express and Fastify requests, Fastify has no
+ * `req.get()`, `req.baseUrl` or `req.path`.
+ */
+export function requestBaseUrl(req: any, config: PaginateConfig = {}): string {
+  // express strips mounted prefixes from req.url, but keeps them in originalUrl
+  let path = (req.originalUrl || req.url).split('?')[0];
+  if (config.trustProxy) {
+    const prefix = forwardedHeader(req, 'x-forwarded-prefix');
+    if (prefix) {
+      path = prefix.replace(/\/+$/, '') + path;
+    }
+  }
+
+  if (config.relativeLinks) {
+    return path;
+  }
+
+  if (config.baseUrl) {
+    return config.baseUrl.replace(/\/+$/, '') + path;
+  }
+
+  let protocol = req.protocol || (req.socket?.encrypted ? 'https' : 'http');
+  let host = req.headers.host;
+  if (config.trustProxy) {
+    protocol = forwardedHeader(req, 'x-forwarded-proto') || protocol;
+    host = forwardedHeader(req, 'x-forwarded-host') || host;
+  }
+
+  return `${protocol}://${host}${path}`;
+}
@@ -1,47 +1,416 @@
 import {
-    createParamDecorator, ExecutionContext
+    BadRequestException, createParamDecorator, ExecutionContext
 } from '@nestjs/common';
-import { Equal, FindManyOptions, FindOperator, ILike, LessThan, LessThanOrEqual, Like, MoreThan, MoreThanOrEqual, Not, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { Brackets, EntityMetadata, FindManyOptions, ObjectLiteral, Repository, SelectQueryBuilder } from 'typeorm';
+import { coerceFilterTree, ColumnKind, columnKind, findColumn } from './coercion';
+import { resolveEntityConfig } from './entity-decorators';
+import { FilterGroup, FilterGroupOps, FilterQuantifier, FilterTerm, FilterTree, FilterValue, isFilterGroup, likeSearchOps, listSearchOps, SearchOps } from './filters';
+import { isToManyPath, joinPropertyPath, joinRelationPath } from './joins';
 
-export enum SearchOps {
-  EQUALS     = 'eq',
-  NOTEQUALS  = 'neq',
-  CONTAINS   = 'contains',
-  ICONTAINS  = 'icontains',
-  GT         = 'gt',
-  LT         = 'lt',
-  GTE        = 'gte',
-  LTE        = 'lte',
-  STARTSWITH = 'startswith',
-  ENDSWITH   = 'endswith'
-}
+export * from './filters';
 
 export interface SortAndFilterParams {
   sort?: { [key: string]: 'ASC' | 'DESC' },
-  filter?: { [key: string]: { value: string, op: SearchOps } }
+  filter?: FilterTree,
+  search?: SearchParams,
+  // attributes to select, the primary key is always selected
+  fields?: string[],
+  // relations to load
+  include?: string[],
+  // computed attributes used by sort or filter, by public name
+  expressions?: { [key: string]: SortAndFilterExpression | ComputedAttribute },
 };
 
+// raw SQL for a computed attribute, given the alias of the main entity
+export type SortAndFilterExpression = (alias: string) => string;
+
+// a computed attribute with the type of its values, filter values are
+// coerced to it like those of columns rather than passed as is
+export interface ComputedAttribute {
+  expression: SortAndFilterExpression,
+  type?: 'string' | 'number' | 'date' | 'boolean' | 'uuid',
+}
+
+export interface FullTextSearchConfig {
+  // text search configuration, e.g. 'english', defaults to the database's
+  language?: string,
+  // order results by relevance, unless they are explicitly sorted
+  rank?: boolean,
+}
+
+export interface SearchParams {
+  term: string,
+  fields: string[],
+  fullText?: FullTextSearchConfig,
+}
+
 export interface SortAndFilterConfig {
+  // entity class whose @Sortable and @Filterable attributes are merged into
+  // sortable and filterable
+  entity?: Function,
   sortable?: string[],
-  filterable?: string[],
+  // either a list of attributes that accept every operator, or a map from
+  // attribute to the operators it accepts, e.g. { name: ['eq', 'icontains'] }
+  filterable?: string[] | { [key: string]: `${SearchOps}`[] },
+  // attributes matched by the search query param
+  searchable?: string[],
+  // attributes the fields query param can select, fields is ignored without it
+  selectable?: string[],
+  // relations the include query param can load, include is ignored without it
+  includable?: string[],
+  // search with Postgres full text search instead of ILIKE
+  fullTextSearch?: boolean | FullTextSearchConfig,
+  // sort used when the request doesn't sort, e.g. { createdAt: 'DESC' }
+  defaultSort?: { [key: string]: 'ASC' | 'DESC' },
+  // public attribute names for sort and filter, mapped to a property path
+  // such as 'related.name' or to a computed SQL expression. Whitelists use the
+  // public names.
+  aliases?: { [key: string]: string | SortAndFilterExpression | ComputedAttribute },
+  // reads sort and filter in another format, e.g. bracketParser()
+  parser?: SortAndFilterParser,
+  // reject requests that sort or filter on attributes that aren't whitelisted,
+  // or use an unknown operator, instead of silently ignoring them
+  strict?: boolean,
+}
+
+// reads another query string format, such as bracketParser() or jsonParser()
+export interface SortAndFilterParser {
+  // rewrites the query into the sort and filter query param syntax, recording
+  // malformed input in errors
+  parse(query: any, errors: SortAndFilterError[]): any,
+}
+
+export interface SortAndFilterError {
+  param: 'sort' | 'filter' | 'search' | 'fields' | 'include',
+  field: string,
+  operator?: string,
+  message: string,
+  allowed?: string[],
+}
+
+let defaultConfig: SortAndFilterConfig = {};
+
+/**
+ * Sets config defaults for every `@SortAndFilter` decorator, e.g. to make all
+ * endpoints strict. Options passed to a decorator take precedence.
+ */
+export function setSortAndFilterDefaults(config: SortAndFilterConfig) {
+  defaultConfig = { ...config };
+}
+
+export interface SortAndFilterOptions {
+  // whether relations joined for filtering also select their columns, defaults
+  // to true. Relations joined for sorting are always selected.
+  selectJoins?: boolean,
 }
 
 declare module 'typeorm/query-builder/SelectQueryBuilder' {
   interface SelectQueryBuilder<Entity> {
-    sortAndFilter(params: SortAndFilterParams): this;
+    sortAndFilter(params: SortAndFilterParams, options?: SortAndFilterOptions): this;
   }
 }
 
-export const SortAndFilter = createParamDecorator<SortAndFilterConfig>((config: SortAndFilterConfig, ctx: ExecutionContext): SortAndFilterParams => {
-  const req = ctx.switchToHttp().getRequest();
+function freeKey(tree: FilterTree, key: string) {
+  let free = key;
+  for (let i = 2; free in tree; ++i) {
+    free = `${key}${i}`;
+  }
+
+  return free;
+}
+
+function addFilterNode(tree: FilterTree, key: string, node: FilterTerm | FilterGroup) {
+  if (isFilterGroup(node)) {
+    tree[freeKey(tree, key)] = node;
+  } else if (key in tree) {
+    // the same attribute twice, e.g. age__gt:5,age__lt:10
+    tree[freeKey(tree, '$and')] = { op: FilterGroupOps.AND, value: [{ [key]: node }] };
+  } else {
+    tree[key] = node;
+  }
+}
+
+// unescapes a filter value, splitting lists on separators that are neither
+// escaped nor quoted
+function parseFilterValue(raw: string, separator?: string): string[] {
+  const values: string[] = [];
+  let value = '';
+  let quoted = false;
+  for (let i = 0; i < raw.length; ++i) {
+    const char = raw[i];
+    if (char == '\\' && i + 1 < raw.length) {
+      value += raw[++i];
+    } else if (char == '"') {
+      quoted = !quoted;
+    } else if (char == separator && !quoted) {
+      values.push(value);
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  values.push(value);
+
+  return values;
+}
+
+/**
+ * Parses the filter query param, terms are `attr__op:value` and can be
+ * combined with `,` (AND), `|` (OR), `!` (NOT) and grouped with parentheses:
+ *
+ *   expression  := conjunction ('|' conjunction)*
+ *   conjunction := unary (',' unary)*
+ *   unary       := '!' unary | '(' expression ')' | term
+ *
+ * Values can be double quoted, or escape single characters with a backslash,
+ * to contain `,`, `|`, `)` or, in lists, `;`. E.g. `name:"Doe, John"` or
+ * `name:Doe\, John`.
+ *
+ * Terms that are not filterable, or use an operator their attribute doesn't
+ * allow, are dropped, as are groups left empty. Each dropped term is recorded
+ * in `errors` so strict mode can reject them.
+ */
+class FilterParser {
+  private pos = 0;
+  errors: SortAndFilterError[] = [];
+
+  constructor(private input: string, private config: SortAndFilterConfig) {}
+
+  parse(): FilterTree {
+    return this.expression(0) || {};
+  }
+
+  private accept(char: string) {
+    if (this.input[this.pos] == char) {
+      ++this.pos;
+      return true;
+    }
+
+    return false;
+  }
+
+  private expression(depth: number): FilterTree | null {
+    const branches: FilterTree[] = [];
+    do {
+      const branch = this.conjunction(depth);
+      if (branch) {
+        branches.push(branch);
+      }
+    } while (this.accept('|'));
+
+    if (branches.length <= 1) {
+      return branches[0] || null;
+    }
+
+    return { $or: { op: FilterGroupOps.OR, value: branches } };
+  }
+
+  private conjunction(depth: number): FilterTree | null {
+    const tree: FilterTree = {};
+    do {
+      const node = this.unary(depth);
+      for (const [key, value] of Object.entries(node || {})) {
+        addFilterNode(tree, key, value);
+      }
+    } while (this.accept(','));
+
+    return Object.keys(tree).length ? tree : null;
+  }
+
+  private unary(depth: number): FilterTree | null {
+    if (this.accept('!')) {
+      const node = this.unary(depth);
+      return node && { $not: { op: FilterGroupOps.NOT, value: [node] } };
+    }
+
+    if (this.accept('(')) {
+      const node = this.expression(depth + 1);
+      this.accept(')');
+      return node;
+    }
+
+    return this.term(depth);
+  }
+
+  private term(depth: number): FilterTree | null {
+    const start = this.pos;
+    let quoted = false;
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+      if (char == '\\') {
+        this.pos += 2;
+        continue;
+      }
+
+      if (char == '"') {
+        quoted = !quoted;
+      } else if (!quoted && (char == ',' || char == '|' || (char == ')' && depth > 0))) {
+        break;
+      }
+      ++this.pos;
+    }
+
+    const raw = this.input.slice(start, this.pos);
+    const splits = raw.split(':');
+    let key = splits[0];
+    const rawValue = splits.slice(1).join(':');
+
+    if (!key || !rawValue) {
+      this.reject(raw, `filter "${raw}": expected attr__op:value`);
+      return null;
+    }
+
+    let op = SearchOps.EQUALS;
+    let quantifier: FilterQuantifier;
+    if (key.indexOf('__') != -1) {
+      let [realKey, stringOp, stringQuantifier] = key.split('__');
+      key = realKey;
+      if (stringQuantifier) {
+        const allowed = Object.values(FilterQuantifier);
+        if (allowed.includes(stringQuantifier as FilterQuantifier)) {
+          quantifier = stringQuantifier as FilterQuantifier;
+        } else {
+          this.reject(key, `filter "${raw}": unknown quantifier ${stringQuantifier}, expected one of ${allowed.join(', ')}`, stringOp, allowed);
+          return null;
+        }
+      }
+      if (Object.values(SearchOps).includes(stringOp as SearchOps)) {
+        op = stringOp as SearchOps;
+      } else {
+        const allowed = Object.values(SearchOps);
+        this.reject(key, `filter "${raw}": unknown operator ${stringOp}, expected one of ${allowed.join(', ')}`, stringOp, allowed);
+      }
+    }
+
+    let value: string | string[] = parseFilterValue(rawValue)[0];
+    if (listSearchOps.includes(op)) {
+      value = parseFilterValue(rawValue, ';');
+      if (op == SearchOps.BETWEEN && value.length != 2) {
+        this.reject(key, `filter "${raw}": between expects two values separated by ;`, op);
+        return null;
+      }
+    }
+
+    const { filterable } = this.config;
+    if (filterable) {
+      const fields = Array.isArray(filterable) ? filterable : Object.keys(filterable);
+      if (!fields.includes(key)) {
+        this.reject(key, `filter "${raw}": ${key} is not filterable, expected one of ${fields.join(', ')}`, undefined, fields);
+        return null;
+      }
+
+      const ops: string[] = Array.isArray(filterable) ? Object.values(SearchOps) : filterable[key];
+      if (!ops.includes(op)) {
+        this.reject(key, `filter "${raw}": ${op} is not allowed on ${key}, expected one of ${ops.join(', ')}`, op, ops);
+        return null;
+      }
+    }
+
+    return { [key]: quantifier ? { op, value, quantifier } : { op, value } };
+  }
+
+  private reject(field: string, message: string, operator?: string, allowed?: string[]) {
+    this.errors.push({ param: 'filter', field, operator, message, allowed });
+  }
+}
+
+function rejectRequest(errors: SortAndFilterError[]) {
+  throw new BadRequestException({
+    statusCode: 400,
+    message: errors.map(e => e.message),
+    errors,
+    error: 'Bad Request',
+  });
+}
+
+// a comma separated list param restricted to the whitelisted values
+function parseList(value: any, param: 'fields' | 'include', whitelist: string[] | undefined, adjective: string, errors: SortAndFilterError[]) {
+  if (typeof value != 'string') {
+    return undefined;
+  }
+
+  whitelist = whitelist || [];
+  const requested = value.split(',').filter(item => item);
+  for (const item of requested.filter(item => !whitelist.includes(item))) {
+    errors.push({
+      param,
+      field: item,
+      message: `${param} "${item}": ${item} is not ${adjective}, expected one of ${whitelist.join(', ')}`,
+      allowed: whitelist,
+    });
+  }
+
+  const allowed = requested.filter(item => whitelist.includes(item));
+  return allowed.length ? allowed : undefined;
+}
+
+function renameFilterTree(tree: FilterTree, rename: (key: string) => string): FilterTree {
+  const renamed: FilterTree = {};
+  for (const [key, node] of Object.entries(tree)) {
+    if (isFilterGroup(node)) {
+      renamed[key] = { op: node.op, value: node.value.map(t => renameFilterTree(t, rename)) };
+    } else {
+      addFilterNode(renamed, rename(key), node);
+    }
+  }
+
+  return renamed;
+}
+
+// replaces public names with their property paths, computed attributes keep
+// their public name and are looked up in params.expressions
+function applyAliases(params: SortAndFilterParams, aliases: SortAndFilterConfig['aliases']) {
+  const expressions: SortAndFilterParams['expressions'] = {};
+  const rename = (key: string) => {
+    const alias = aliases[key];
+    if (typeof alias == 'function' || typeof alias == 'object') {
+      expressions[key] = alias;
+      return key;
+    }
+
+    return alias || key;
+  };
+
+  const sort = {};
+  for (const [key, dir] of Object.entries(params.sort)) {
+    sort[rename(key)] = dir;
+  }
+
+  params.sort = sort;
+  params.filter = renameFilterTree(params.filter, rename);
+  if (Object.keys(expressions).length) {
+    params.expressions = expressions;
+  }
+}
+
+/**
+ * Reads SortAndFilterParams from the `sort` and `filter` query params.
+ */
+export function parseSortAndFilterQuery(query: any, options?: SortAndFilterConfig): SortAndFilterParams {
+  const config = resolveEntityConfig({ ...defaultConfig, ...options });
+  const errors: SortAndFilterError[] = [];
+  if (config.parser) {
+    query = config.parser.parse(query, errors);
+  }
 
   let sort = {};
-  if (req.query.sort) {
-    req.query.sort
+  if (query.sort) {
+    query.sort
       .split(',')
       .filter((c: string) => {
         if (config.sortable) {
-          return config.sortable.includes(c) || (c[0] == '-' && config.sortable.includes(c.slice(1)));
+          const field = c[0] == '-' ? c.slice(1) : c;
+          if (!field || config.sortable.includes(field)) {
+            return !!field;
+          }
+
+          errors.push({
+            param: 'sort',
+            field,
+            message: `sort "${c}": ${field} is not sortable, expected one of ${config.sortable.join(', ')}`,
+            allowed: config.sortable,
+          });
+          return false;
         }
 
         return c;
@@ -58,42 +427,54 @@ export const SortAndFilter = createParamDecorator<SortAndFilterConfig>((config:
   }
 
   let filter = {};
-  if (req.query.filter) {
-    req.query.filter.split(',').forEach((filterColumn: string) => {
-      const splits = filterColumn.split(':');
-      let key = splits[0];
-      const value = splits.slice(1).join(':');
-
-
-      if (key && value) {
-        let op = SearchOps.EQUALS;
-        if (key.indexOf('__') != -1) {
-          let [realKey, stringOp] = key.split('__');
-          key = realKey;
-          if (Object.values(SearchOps).includes(stringOp as SearchOps)) {
-            op = stringOp as SearchOps;
-          }
-        }
+  if (query.filter) {
+    const parser = new FilterParser(query.filter, config);
+    filter = parser.parse();
+    errors.push(...parser.errors);
+  }
 
-        if (config.filterable) {
-          if (config.filterable.includes(key)) {
-            filter[key] = {
-              op, value
-            };
-          }
-        } else {
-          filter[key] = {
-            op, value
-          };
-        }
-      }
-    });
+  let search: SearchParams;
+  const term = typeof query.search == 'string' ? query.search.trim() : '';
+  if (term && config.searchable?.length) {
+    const { fullTextSearch } = config;
+    search = {
+      term,
+      fields: config.searchable,
+      fullText: fullTextSearch instanceof Object ? fullTextSearch : fullTextSearch ? {} : undefined,
+    };
+  } else if (term) {
+    errors.push({ param: 'search', field: 'search', message: 'search is not supported here' });
   }
 
-  return {
+  // NOTE: a ranked full text search is ordered by relevance instead
+  if (config.defaultSort && !Object.keys(sort).length && !search?.fullText?.rank) {
+    sort = { ...config.defaultSort };
+  }
+
+  const fields = parseList(query.fields, 'fields', config.selectable, 'selectable', errors);
+  const include = parseList(query.include, 'include', config.includable, 'includable', errors);
+
+  if (config.strict && errors.length) {
+    rejectRequest(errors);
+  }
+
+  const params: SortAndFilterParams = {
     sort,
-    filter
+    filter,
+    search,
+    fields,
+    include,
   };
+  if (config.aliases) {
+    applyAliases(params, config.aliases);
+  }
+
+  return params;
+}
+
+export const SortAndFilter = createParamDecorator<SortAndFilterConfig>((config: SortAndFilterConfig, ctx: ExecutionContext): SortAndFilterParams => {
+  const req = ctx.switchToHttp().getRequest();
+  return parseSortAndFilterQuery(req.query, config);
 });
 
 const searchOpToOperator = {
@@ -107,101 +488,405 @@ const searchOpToOperator = {
   [SearchOps.LT]:         '<',
   [SearchOps.GTE]:        '>=',
   [SearchOps.LTE]:        '<=',
+  [SearchOps.IN]:         'IN',
+  [SearchOps.NOTIN]:      'NOT IN',
+  [SearchOps.ISNULL]:     'IS NULL',
+  [SearchOps.BETWEEN]:    'BETWEEN',
 };
 
-function NotEqual<T>(value: T | FindOperator<T>): FindOperator<T> {
-  return Not(Equal(value));
-}
-
-const searchOpToTypeormOperator = {
-  [SearchOps.EQUALS]:     Equal,
-  [SearchOps.NOTEQUALS]:  NotEqual,
-  [SearchOps.CONTAINS]:   Like,
-  [SearchOps.STARTSWITH]: Like,
-  [SearchOps.ENDSWITH]:   Like,
-  [SearchOps.CONTAINS]:   Like,
-  [SearchOps.ICONTAINS]:  ILike,
-  [SearchOps.GT]:         MoreThan,
-  [SearchOps.LT]:         LessThan,
-  [SearchOps.GTE]:        MoreThanOrEqual,
-  [SearchOps.LTE]:        LessThanOrEqual,
+const negatedSearchOpToOperator = {
+  [SearchOps.EQUALS]:     '!=',
+  [SearchOps.NOTEQUALS]:  '=',
+  [SearchOps.CONTAINS]:   'NOT LIKE',
+  [SearchOps.STARTSWITH]: 'NOT LIKE',
+  [SearchOps.ENDSWITH]:   'NOT LIKE',
+  [SearchOps.ICONTAINS]:  'NOT ILIKE',
+  [SearchOps.GT]:         '<=',
+  [SearchOps.LT]:         '>=',
+  [SearchOps.GTE]:        '<',
+  [SearchOps.LTE]:        '>',
+  [SearchOps.IN]:         'NOT IN',
+  [SearchOps.NOTIN]:      'IN',
+  [SearchOps.ISNULL]:     'IS NOT NULL',
+  [SearchOps.BETWEEN]:    'NOT BETWEEN',
 };
 
-function paramTransform(param: string, op: SearchOps) {
+function isTruthy(value: FilterValue | FilterValue[]) {
+  return !['false', '0'].includes(value.toString().toLowerCase());
+}
+
+// LIKE patterns are matched with ESCAPE '\', so the value's wildcards are literal
+function escapeLike(value: FilterValue) {
+  return `${value}`.replace(/[\\%_]/g, '\\$&');
+}
+
+function paramTransform(param: FilterValue | FilterValue[], op: SearchOps) {
+  if (Array.isArray(param)) {
+    return param.map(p => paramTransform(p, op));
+  }
+
   switch(op) {
     case SearchOps.CONTAINS:
     case SearchOps.ICONTAINS:
-      return `%${param}%`
+      return `%${escapeLike(param)}%`
     case SearchOps.STARTSWITH:
-      return `${param}%`
+      return `${escapeLike(param)}%`
     case SearchOps.ENDSWITH:
-      return `%${param}`
+      return `%${escapeLike(param)}`
   }
 
   return param;
 }
 
-function buildSortAndFilterJoins<Entity>(qb: SelectQueryBuilder<Entity>, dottedPath: string, alias: string) {
-  // NOTE(justin): currently only support 1 level of traversing.
-  const [related, attr] = dottedPath.split('.');
-  const joinAlias = `leftJoinAnd${alias}_${related}_${attr}`;
-  qb.leftJoinAndSelect(`${qb.alias}.${related}`, joinAlias);
+interface FilterContext<Entity> {
+  qb: SelectQueryBuilder<Entity>,
+  options: SortAndFilterOptions,
+  computed: Map<string, ComputedAttribute>,
+  counter: number,
+}
+
+function columnCondition(column: string, term: FilterTerm, negated: boolean, name: string): [string, ObjectLiteral] {
+  // isnull:false is just a negated isnull:true
+  if (term.op == SearchOps.ISNULL && !isTruthy(term.value)) {
+    negated = !negated;
+  }
+
+  const operators = negated ? negatedSearchOpToOperator : searchOpToOperator;
+  const op = operators[term.op] || operators[SearchOps.EQUALS];
+  const param = paramTransform(term.value, term.op);
 
-  return `"${joinAlias}"."${attr}"`
+  switch (term.op) {
+    case SearchOps.IN:
+    case SearchOps.NOTIN:
+      return [`${column} ${op} (:...${name})`, { [name]: param }];
+    case SearchOps.ISNULL:
+      return [`${column} ${op}`, {}];
+    case SearchOps.BETWEEN:
+      return [`${column} ${op} :${name}_from AND :${name}_to`, { [`${name}_from`]: param[0], [`${name}_to`]: param[1] }];
+    case SearchOps.CONTAINS:
+    case SearchOps.ICONTAINS:
+    case SearchOps.STARTSWITH:
+    case SearchOps.ENDSWITH:
+      return [`${column} ${op} :${name} ESCAPE '\\'`, { [name]: param }];
+  }
+
+  return [`${column} ${op} :${name}`, { [name]: param }];
 }
 
-SelectQueryBuilder.prototype.sortAndFilter = function<Entity>(this: SelectQueryBuilder<Entity>, params: SortAndFilterParams) {
-  if (params.sort) {
-    for (let [key, dir] of Object.entries(params.sort)) {
-      if (key.includes('.')) {
-        key = buildSortAndFilterJoins(this, key, 'Sort');
-        this.addOrderBy(`${key}`, dir);
+// terms on to-many paths are matched in an EXISTS subquery rather than by
+// joining, which would repeat the entity once per related row
+function toManyCondition<Entity>(ctx: FilterContext<Entity>, key: string, term: FilterTerm, negated: boolean, name: string): [string, ObjectLiteral] {
+  const { qb } = ctx;
+  const { metadata } = qb.expressionMap.mainAlias;
+  const alias = `${qb.alias}_${name}`;
+  const sub = qb.subQuery().select('1').from(metadata.target, alias);
+  for (const { databaseName } of metadata.primaryColumns) {
+    sub.andWhere(`${qb.escape(alias)}.${qb.escape(databaseName)} = ${qb.escape(qb.alias)}.${qb.escape(databaseName)}`);
+  }
+
+  // the relations are left joined, so rows without related ones are skipped
+  const column = joinPropertyPath(sub, key, false);
+  const related = findColumn(metadata, key).entityMetadata;
+  const relatedAlias = column.slice(0, column.lastIndexOf('.'));
+  for (const { databaseName } of related.primaryColumns) {
+    sub.andWhere(`${qb.escape(relatedAlias)}.${qb.escape(databaseName)} IS NOT NULL`);
+  }
+
+  let [condition, parameters] = columnCondition(column, term, false, name);
+  // all is none of the related rows failing the condition, nulls included
+  const quantifier = term.quantifier || FilterQuantifier.ANY;
+  if (quantifier == FilterQuantifier.ALL) {
+    condition = `(${condition}) IS NOT TRUE`;
+  }
+  sub.andWhere(condition);
+
+  const exists = (quantifier == FilterQuantifier.ANY) != negated;
+  return [`${exists ? '' : 'NOT '}EXISTS ${sub.getQuery()}`, parameters];
+}
+
+function filterTermCondition<Entity>(ctx: FilterContext<Entity>, key: string, term: FilterTerm, negated: boolean): [string, ObjectLiteral] {
+  const name = `filterValue${ctx.counter++}`;
+  const computed = ctx.computed.get(key);
+  if (computed) {
+    return columnCondition(`(${computed.expression(ctx.qb.alias)})`, term, negated, name);
+  }
+
+  const { mainAlias } = ctx.qb.expressionMap;
+  if (mainAlias.hasMetadata && isToManyPath(mainAlias.metadata, key)) {
+    return toManyCondition(ctx, key, term, negated, name);
+  }
+
+  return columnCondition(joinPropertyPath(ctx.qb, key, ctx.options.selectJoins), term, negated, name);
+}
+
+// negation is pushed down to the terms (De Morgan), so ANDs become ORs under it
+function filterTreeBrackets<Entity>(ctx: FilterContext<Entity>, tree: FilterTree, negated: boolean) {
+  return new Brackets(wb => {
+    for (const [key, node] of Object.entries(tree)) {
+      if (isFilterGroup(node)) {
+        const brackets = filterGroupBrackets(ctx, node, negated);
+        negated ? wb.orWhere(brackets) : wb.andWhere(brackets);
       } else {
-        this.addOrderBy(`${this.alias}.${key}`, dir);
+        const [condition, parameters] = filterTermCondition(ctx, key, node, negated);
+        negated ? wb.orWhere(condition, parameters) : wb.andWhere(condition, parameters);
       }
     }
+  });
+}
+
+function filterGroupBrackets<Entity>(ctx: FilterContext<Entity>, group: FilterGroup, negated: boolean) {
+  const childNegated = group.op == FilterGroupOps.NOT ? !negated : negated;
+  const any = (group.op == FilterGroupOps.OR) != childNegated;
+
+  return new Brackets(wb => {
+    for (const tree of group.value) {
+      const brackets = filterTreeBrackets(ctx, tree, childNegated);
+      any ? wb.orWhere(brackets) : wb.andWhere(brackets);
+    }
+  });
+}
+
+function computedAttributes(expressions: SortAndFilterParams['expressions'] = {}) {
+  const computed = new Map<string, ComputedAttribute>();
+  for (const [key, expression] of Object.entries(expressions)) {
+    computed.set(key, typeof expression == 'function' ? { expression } : expression);
   }
 
-  if (params.filter) {
-    let counter = 0;
-    for (let [key, value] of Object.entries(params.filter)) {
-      let op = searchOpToOperator[value.op] || '=';
-      let param = paramTransform(value.value, value.op);
+  return computed;
+}
 
-      if (key.includes('.')) {
-        key = buildSortAndFilterJoins(this, key, 'Filter');
-        this.andWhere(`${key} ${op} :filterValue${counter}`, { [`filterValue${counter}`]: param });
-      } else {
-        this.andWhere(`${this.alias}.${key} ${op} :filterValue${counter}`, { [`filterValue${counter}`]: param });
+function applyFilter<Entity>(qb: SelectQueryBuilder<Entity>, filter: FilterTree, computed: Map<string, ComputedAttribute>, options: SortAndFilterOptions) {
+  if (qb.expressionMap.mainAlias.hasMetadata) {
+    const kinds = new Map<string, ColumnKind | undefined>();
+    computed.forEach(({ type }, key) => kinds.set(key, type));
+    filter = coerceFilterTree(qb.expressionMap.mainAlias.metadata, filter, kinds);
+  }
+
+  qb.andWhere(filterTreeBrackets({ qb, options, computed, counter: 0 }, filter, false));
+}
+
+function searchColumn<Entity>(qb: SelectQueryBuilder<Entity>, field: string, select: boolean) {
+  const column = joinPropertyPath(qb, field, select);
+  const metadata = qb.expressionMap.mainAlias.hasMetadata && findColumn(qb.expressionMap.mainAlias.metadata, field);
+
+  // non text columns, e.g. numbers, are searched by their text representation
+  return metadata && columnKind(metadata) == 'string' ? column : `CAST(${column} AS TEXT)`;
+}
+
+function applySearch<Entity>(qb: SelectQueryBuilder<Entity>, search: SearchParams, options: SortAndFilterOptions, sorted: boolean) {
+  const columns = search.fields.map(field => searchColumn(qb, field, options.selectJoins));
+
+  if (!search.fullText) {
+    qb.andWhere(new Brackets(wb => {
+      for (const column of columns) {
+        wb.orWhere(`${column} ILIKE :searchTerm ESCAPE '\\'`);
       }
+    }), { searchTerm: `%${escapeLike(search.term)}%` });
+    return;
+  }
+
+  const { language, rank } = search.fullText;
+  const config = language ? 'CAST(:searchLanguage AS regconfig), ' : '';
+  const document = columns.map(column => `COALESCE(${column}, '')`).join(` || ' ' || `);
+  const vector = `to_tsvector(${config}${document})`;
+  const tsquery = `plainto_tsquery(${config}:searchTerm)`;
+
+  qb.andWhere(`${vector} @@ ${tsquery}`, { searchTerm: search.term, searchLanguage: language });
+  if (rank && !sorted) {
+    // NOTE: ordered by a selected alias like computed sorts, see sortAndFilter
+    qb.addSelect(`ts_rank(${vector}, ${tsquery})`, 'search_rank');
+    qb.addOrderBy('search_rank', 'DESC');
+  }
+}
 
-      ++counter;
+// replaces the selection of the main alias with the given fields, joining and
+// selecting dotted ones. Primary keys and sorted columns stay selected, TypeORM
+// needs them to build entities and to paginate with joins.
+function applyFields<Entity>(qb: SelectQueryBuilder<Entity>, fields: string[]) {
+  const { selects } = qb.expressionMap;
+  const metadata = qb.expressionMap.mainAlias.metadata;
+  const columns = new Set<string>();
+  const addPrimaryKeys = (alias: string, entity: EntityMetadata) => {
+    entity.primaryColumns.forEach(column => columns.add(`${alias}.${column.propertyPath}`));
+  };
+
+  addPrimaryKeys(qb.alias, metadata);
+  for (const field of fields) {
+    if (field.indexOf('.') == -1) {
+      columns.add(`${qb.alias}.${field}`);
+      continue;
+    }
+
+    const column = joinPropertyPath(qb, field, false);
+    const alias = column.slice(0, column.lastIndexOf('.'));
+    if (!selects.some(select => select.selection == alias)) {
+      columns.add(column);
+      addPrimaryKeys(alias, findColumn(metadata, field).entityMetadata);
     }
   }
 
+  for (const orderBy of Object.keys(qb.expressionMap.orderBys)) {
+    if (orderBy.startsWith(`${qb.alias}.`)) {
+      columns.add(orderBy);
+    }
+  }
+
+  qb.expressionMap.selects = selects.filter(select => select.selection != qb.alias);
+  qb.addSelect([...columns]);
+}
+
+SelectQueryBuilder.prototype.sortAndFilter = function<Entity>(this: SelectQueryBuilder<Entity>, params: SortAndFilterParams, options: SortAndFilterOptions = {}) {
+  options = { selectJoins: true, ...options };
+
+  const computed = computedAttributes(params.expressions);
+  if (params.sort) {
+    Object.entries(params.sort).forEach(([key, dir], i) => {
+      const attribute = computed.get(key);
+      if (attribute) {
+        // NOTE: ordered by a selected alias, TypeORM can only order the
+        // paginated subquery used with joins by columns or selected aliases
+        const alias = `sort_expression_${i}`;
+        this.addSelect(attribute.expression(this.alias), alias);
+        this.addOrderBy(alias, dir);
+        return;
+      }
+
+      // always selected, TypeORM needs the sorted columns to paginate with joins
+      this.addOrderBy(joinPropertyPath(this, key, true), dir);
+    });
+  }
+
+  if (params.filter && Object.keys(params.filter).length) {
+    applyFilter(this, params.filter, computed, options);
+  }
+
+  if (params.search) {
+    applySearch(this, params.search, options, !!params.sort && Object.keys(params.sort).length > 0);
+  }
+
+  // NOTE: to-many joins are fine with the paginators, TypeORM's skip and take
+  // page and count distinct entities rather than rows
+  for (const path of params.include || []) {
+    joinRelationPath(this, path, true);
+  }
+
+  if (params.fields && this.expressionMap.mainAlias.hasMetadata) {
+    applyFields(this, params.fields);
+  }
+
   return this;
 };
 
-export const sortAndFilter = <T extends ObjectLiteral>(params: SortAndFilterParams): FindManyOptions<T> => {
-  const options: FindManyOptions<T> = {};
+function setPath(target: ObjectLiteral, path: string, value: any) {
+  const parts = path.split('.');
+  const last = parts.pop();
+  for (const part of parts) {
+    target = target[part] ||= {};
+  }
+  target[last] = value;
+}
 
-  if (params.sort) {
-    for (let [key, dir] of Object.entries(params.sort)) {
-      options.order ||= {};
-      options.order[key] = dir;
+function nestPaths(flat: ObjectLiteral) {
+  const nested = {};
+  for (const [path, value] of Object.entries(flat)) {
+    setPath(nested, path, value);
+  }
+
+  return nested;
+}
+
+// every prefix of a dotted path is a relation to join, e.g. a, a.b for a.b.c
+function relationPaths(paths: string[]) {
+  const relations = new Set<string>();
+  for (const path of paths) {
+    const parts = path.split('.');
+    for (let i = 1; i < parts.length; ++i) {
+      relations.add(parts.slice(0, i).join('.'));
     }
   }
 
-  if (params.filter) {
-    for (let [key, value] of Object.entries(params.filter)) {
-      options.where ||= {};
-      
-      let param = paramTransform(value.value, value.op);
-      const op = searchOpToTypeormOperator[value.op] || Equal;
+  return [...relations];
+}
 
-      options.where[key] = op(param);
+function filterTreeKeys(tree: FilterTree, keys: string[] = []) {
+  for (const [key, node] of Object.entries(tree)) {
+    if (isFilterGroup(node)) {
+      node.value.forEach(child => filterTreeKeys(child, keys));
+    } else {
+      keys.push(key);
     }
   }
 
+  return keys;
+}
+
+/**
+ * Builds FindManyOptions for repo.find() and the paginate helper. Pass the
+ * repository to select fields.
+ */
+export const sortAndFilter = <T extends ObjectLiteral>(params: SortAndFilterParams, repo?: Repository<T>): FindManyOptions<T> => {
+  const options: FindManyOptions<T> = {};
+  const paths: string[] = [];
+
+  const computed = Object.keys(params.expressions || {});
+  if (computed.length) {
+    throw new Error(`computed attributes (${computed.join(', ')}) are only supported by the query builder`);
+  }
+
+  if (params.sort && Object.keys(params.sort).length) {
+    options.order = nestPaths(params.sort);
+    paths.push(...Object.keys(params.sort));
+  }
+
+  const hasFilter = params.filter && Object.keys(params.filter).length;
+  if (hasFilter || params.search) {
+    // NOTE: find() calls a where function with its query builder, after
+    // joining the relations, so the filter and search are applied the way
+    // .sortAndFilter() applies them rather than expanded into an OR of ANDs
+    const where = (qb: SelectQueryBuilder<T>) => {
+      if (hasFilter) {
+        applyFilter(qb, params.filter, new Map(), { selectJoins: true });
+      }
+      if (params.search) {
+        applySearch(qb, params.search, { selectJoins: true }, !!options.order);
+      }
+    };
+    options.where = where as ObjectLiteral;
+  }
+
+  // relations filtered on are loaded, as they are when sorted on, except
+  // to-many ones, which are filtered in a subquery
+  if (hasFilter) {
+    const keys = filterTreeKeys(params.filter);
+    paths.push(...keys.filter(key => !repo || !isToManyPath(repo.metadata, key)));
+  }
+
+  if (params.search) {
+    paths.push(...params.search.fields);
+  }
+
+  // FindManyOptions can only select columns of the entity itself, relations
+  // listed in fields are loaded entirely
+  if (params.fields && repo) {
+    const select = new Set(repo.metadata.primaryColumns.map(column => column.propertyPath));
+    for (const path of [...params.fields, ...Object.keys(params.sort || {})]) {
+      if (path.indexOf('.') == -1) {
+        select.add(path);
+      }
+    }
+
+    options.select = [...select] as (keyof T)[];
+    paths.push(...params.fields);
+  }
+
+  const relations = relationPaths(paths);
+  for (const path of params.include || []) {
+    relations.push(...relationPaths([path]), path);
+  }
+
+  if (relations.length) {
+    options.relations = [...new Set(relations)];
+  }
+
   return options;
-}
\ No newline at end of file
+}
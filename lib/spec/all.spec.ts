@@ -1,177 +1,1119 @@
+import { INestApplication } from "@nestjs/common";
 import { expect } from "chai";
 import supertest = require("supertest");
-import { TestFactory, TestRelatedFactory } from "./factories";
-import { app } from "./helper";
+import { TestFactory, TestOwnerFactory, TestRelatedFactory } from "./factories";
+import { app as expressApp, fastifyApp } from "./helper";
+import { TestStatus } from "./test-app/test.entity";
 
 let testFactory = new TestFactory();
 let testRelatedFactory = new TestRelatedFactory();
+let testOwnerFactory = new TestOwnerFactory();
 
+function pathOf(link: string) {
+	const url = new URL(link);
+	return url.pathname + url.search;
+}
 
-// NOTE(justin): runs all tests for both repo and query builder controllers
-['/tests', '/tests/repo'].forEach(api => {
-	context(api, () => {
-		describe('Pagination', () => {
-			context('with no results', () => {
-				it('returns the correct links and metainformation', async () => {
-					const res = await supertest(app.getHttpServer())
-						.get(api + '')
-						.expect(200);
 
-					const { body } = res;
+// NOTE: runs every test against both the express and fastify apps
+Object.entries({ express: () => expressApp, fastify: () => fastifyApp }).forEach(([platform, getApp]) => {
+	context(platform, () => {
+		let app: INestApplication;
+		before(() => {
+			app = getApp();
+		});
+
+		// NOTE(justin): runs all tests for both repo and query builder controllers
+		['/tests', '/tests/repo'].forEach(api => {
+			context(api, () => {
+				describe('Pagination', () => {
+					context('with no results', () => {
+						it('returns the correct links and metainformation', async () => {
+							const res = await supertest(app.getHttpServer())
+								.get(api + '')
+								.expect(200);
+
+							const { body } = res;
+
+							expect(body.meta.pageCount).eq(0);
+							expect(body.meta.pageSize).eq(10);
+							expect(body.meta.page).eq(1);
+							expect(body.meta.count).eq(0);
+
+							expect(body.links.first).to.contain('page=1')
+							expect(body.links.last).to.contain('page=1')
+							expect(body.links.prev).to.be.null;
+							expect(body.links.next).to.be.null;
+						});
+					});
+
+					context('with results', () => {
+						it('paginates correctly', async () => {
+							await testFactory.createMany(9);
+
+							const res = await supertest(app.getHttpServer())
+								.get(api + '?pageSize=2&page=2')
+								.expect(200);
+
+							const { body } = res;
+
+							expect(body.results).to.have.length(2);
+
+							expect(body.meta.pageCount).to.eq(5);
+							expect(body.meta.pageSize).to.eq(2);
+							expect(body.meta.page).to.eq(2);
+							expect(body.meta.count).to.eq(9);
+
+							expect(body.links.first).to.contain('page=1')
+							expect(body.links.last).to.contain('page=5')
+							expect(body.links.prev).to.contain('page=1')
+							expect(body.links.next).to.contain('page=3')
+						});
+
+						it('keeps repeated query params in links', async () => {
+							await testFactory.createMany(3);
+
+							const res = await supertest(app.getHttpServer())
+								.get(api + '?pageSize=2&tag=a&tag=b')
+								.expect(200);
+
+							const next = new URL(res.body.links.next);
+							expect(next.searchParams.getAll('tag')).to.deep.eq(['a', 'b']);
+							expect(next.searchParams.get('page')).to.eq('2');
+						});
+
+						it('pages through equal sort values without repeating or skipping results', async () => {
+							const tests = await testFactory.createMany(5, { name: 'same' });
+
+							const ids = [];
+							for (let page = 1; page <= 3; ++page) {
+								const res = await supertest(app.getHttpServer())
+									.get(api + `?sort=name&pageSize=2&page=${page}`)
+									.expect(200);
+								ids.push(...res.body.results.map(r => r.id));
+							}
+
+							expect(ids).to.deep.eq(tests.map(t => t.id).sort((a, b) => a - b));
+						});
+					});
+				});
+
+				describe('Filter and Sort', () => {
+					it('can filter', async () => {
+						await testFactory.create({ name: 'find me!' });
+						await testFactory.create({ name: 'but not me' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?filter=name__startswith:find')
+
+						const { body } = res;
+
+						expect(body.results.length).to.eq(1);
+						expect(body.results[0].name).to.eq('find me!');
+					});
+
+					it('can filter on quoted and escaped values', async () => {
+						const doe = await testFactory.create({ name: 'Doe, John' });
+						const pipe = await testFactory.create({ name: 'a|b' });
+						await testFactory.create({ name: 'Doe' });
+
+						const filter = encodeURIComponent('name:"Doe, John"|name:a\\|b');
+						const res = await supertest(app.getHttpServer())
+							.get(api + `?filter=${filter}&sort=name`)
+							.expect(200);
+
+						expect(res.body.results.map(r => r.id)).to.deep.eq([doe.id, pipe.id]);
+					});
+
+					it('matches LIKE wildcards literally', async () => {
+						// searched emails must not contain wildcards of their own
+						const percent = await testFactory.create({ name: '100%', email: 'a@a.com' });
+						const underscore = await testFactory.create({ name: 'a_b', email: 'b@a.com' });
+						await testFactory.create({ name: '1000', email: 'c@a.com' });
+						await testFactory.create({ name: 'axb', email: 'd@a.com' });
+
+						let res = await supertest(app.getHttpServer())
+							.get(api + `?filter=${encodeURIComponent('name__contains:0%')}`)
+							.expect(200);
+						expect(res.body.results.map(r => r.id)).to.deep.eq([percent.id]);
+
+						res = await supertest(app.getHttpServer())
+							.get(api + `?filter=${encodeURIComponent('!name__icontains:_')}`)
+							.expect(200);
+						expect(res.body.results.map(r => r.name)).to.have.members(['1000', '100%', 'axb']);
+
+						res = await supertest(app.getHttpServer())
+							.get(api + `?search=${encodeURIComponent('_')}`)
+							.expect(200);
+						expect(res.body.results.map(r => r.id)).to.deep.eq([underscore.id]);
+					});
+
+					it('can do multiple filters, which are ANDed', async () => {
+						const record = await testFactory.create({ name: 'find me!', email: 'find@cheese.com' });
+						await testFactory.create({ name: 'dont', email: 'shouldnt@showup.com' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?filter=name__icontains:ME,email__endswith:cheese.com')
+
+						const { body } = res;
+
+						expect(body.results.length).to.eq(1);
+						expect(body.results[0].id).to.eq(record.id);
+					});
+
+					it('can OR filters together', async () => {
+						const first = await testFactory.create({ name: 'first' });
+						const second = await testFactory.create({ name: 'second' });
+						await testFactory.create({ name: 'third' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?filter=(name:first|name:second)&sort=name')
+
+						const { body } = res;
+
+						expect(body.results.map(r => r.id)).to.deep.eq([first.id, second.id]);
+					});
+
+					it('can negate filters', async () => {
+						const record = await testFactory.create({ name: 'keep', email: 'keep@cheese.com' });
+						await testFactory.create({ name: 'keep', email: 'drop@test.com' });
+						await testFactory.create({ name: 'other', email: 'other@cheese.com' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?filter=(name:keep|name:nothing),!email__endswith:test.com')
+
+						const { body } = res;
+
+						expect(body.results.length).to.eq(1);
+						expect(body.results[0].id).to.eq(record.id);
+					});
+
+					it('can AND many OR groups together', async () => {
+						const record = await testFactory.create({ name: 'a' });
+						await testFactory.create({ name: 'c' });
+
+						const groups = Array(20).fill('(name:a|name:b)').join(',');
+						const res = await supertest(app.getHttpServer())
+							.get(api + `?filter=${groups}`)
+							.expect(200);
+
+						expect(res.body.results.map(r => r.id)).to.deep.eq([record.id]);
+					});
+
+					it('can filter by a list of values', async () => {
+						const a = await testFactory.create({ name: 'a' });
+						const b = await testFactory.create({ name: 'b' });
+						const c = await testFactory.create({ name: 'c' });
+
+						let res = await supertest(app.getHttpServer())
+							.get(api + '?filter=name__in:a;c&sort=name')
+						expect(res.body.results.map(r => r.id)).to.deep.eq([a.id, c.id]);
+
+						res = await supertest(app.getHttpServer())
+							.get(api + '?filter=name__nin:a;c')
+						expect(res.body.results.map(r => r.id)).to.deep.eq([b.id]);
+					});
+
+					it('can filter for nulls', async () => {
+						const withNickname = await testFactory.create();
+						withNickname.nickname = 'nick';
+						await withNickname.save();
+
+						const withoutNickname = await testFactory.create();
+
+						let res = await supertest(app.getHttpServer())
+							.get(api + '?filter=nickname__isnull:true')
+						expect(res.body.results.map(r => r.id)).to.deep.eq([withoutNickname.id]);
+
+						res = await supertest(app.getHttpServer())
+							.get(api + '?filter=nickname__isnull:false')
+						expect(res.body.results.map(r => r.id)).to.deep.eq([withNickname.id]);
+					});
+
+					it('can filter within a range', async () => {
+						const past = await testFactory.create();
+						past.createdAt = new Date('2000-01-05');
+						await past.save();
+
+						const present = await testFactory.create();
+						present.createdAt = new Date('2025-02-10');
+						await present.save();
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?filter=createdAt__between:2020-01-01;2030-01-01')
+						expect(res.body.results.map(r => r.id)).to.deep.eq([present.id]);
+					});
+
+					it('can filter on the same attribute more than once', async () => {
+						const past = await testFactory.create();
+						past.createdAt = new Date('2000-01-05');
+						await past.save();
+
+						const present = await testFactory.create({ name: 'present' });
+						present.createdAt = new Date('2025-02-10');
+						await present.save();
+
+						let res = await supertest(app.getHttpServer())
+							.get(api + '?filter=createdAt__gte:2020-01-01,createdAt__lte:2100-01-01')
+							.expect(200);
+
+						expect(res.body.results.map(r => r.id)).to.deep.eq([present.id]);
+
+						res = await supertest(app.getHttpServer())
+							.get(api + '?filter=name__neq:past,name__icontains:pres,createdAt__gte:2020-01-01&search=present')
+							.expect(200);
+
+						expect(res.body.results.map(r => r.id)).to.deep.eq([present.id]);
+					});
+
+					it('can "not equals" filter', async () => {
+						await testFactory.create({ name: 'thing' });
 
-					expect(body.meta.pageCount).eq(0);
-					expect(body.meta.pageSize).eq(10);
-					expect(body.meta.page).eq(1);
-					expect(body.meta.count).eq(0);
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?filter=name__neq:notathing')
 
-					expect(body.links.first).to.contain('page=1')
-					expect(body.links.last).to.contain('page=1')
-					expect(body.links.prev).to.be.null;
-					expect(body.links.next).to.be.null;
+						const { body } = res;
+
+						expect(body.results.length).to.eq(1);
+					});
+
+					it('can filter dates', async () => {
+						const past = await testFactory.create();
+						past.createdAt = new Date('2000-01-05');
+						await past.save();
+
+						const future = await testFactory.create();
+						future.createdAt = new Date('2050-05-10');
+						await future.save();
+
+						const middle = new Date('2025-02-10');
+						const url = `/tests?filter=createdAt__lt:${(middle.toISOString())}`;
+						const res = await supertest(app.getHttpServer())
+							.get(url)
+
+						const { body } = res;
+
+						expect(body.results.length).to.eq(1);
+						expect(body.results[0].id).to.eq(past.id);
+					});
+
+					it('can filter across relationships', async () => {
+						const test = await testFactory.create();
+						const related = await testRelatedFactory.create();
+						test.related = related;
+						await test.save();
+
+						let res = await supertest(app.getHttpServer())
+							.get(api + `?filter=related.name__eq:${related.name}`);
+						let { body } = res;
+
+						expect(body.results.length).to.eq(1);
+
+						res = await supertest(app.getHttpServer())
+							.get(api + `?filter=related.name__eq:NOTHINGSHOULDMATCH`);
+						expect(res.body.results.length).to.eq(0);
+					});
+
+					it('can filter across nested relationships', async () => {
+						const test = await testFactory.create();
+						const related = await testRelatedFactory.create();
+						related.owner = await testOwnerFactory.create();
+						await related.save();
+						test.related = related;
+						await test.save();
+						await testFactory.create();
+
+						let res = await supertest(app.getHttpServer())
+							.get(api + `?filter=related.owner.name__eq:${related.owner.name}`);
+
+						expect(res.body.results.map(r => r.id)).to.deep.eq([test.id]);
+					});
+
+					it('can sort across relationships while paginating', async () => {
+						for (const name of ['b', 'c', 'a']) {
+							const test = await testFactory.create();
+							test.related = await testRelatedFactory.create({ name });
+							await test.save();
+						}
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + `?sort=-related.name&filter=related.name__neq:z&pageSize=2`)
+							.expect(200);
+
+						expect(res.body.results.map(r => r.related.name)).to.deep.eq(['c', 'b']);
+						expect(res.body.meta.count).to.eq(3);
+					});
+
+					it('rejects filter values of the wrong type', async () => {
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?filter=id__gt:abc,createdAt__lt:banana')
+							.expect(400);
+
+						expect(res.body.message).to.deep.eq([
+							'filter "id__gt:abc": expected a number',
+							'filter "createdAt__lt:banana": expected a date',
+						]);
+					});
+
+					it('can filter on enums', async () => {
+						const record = await testFactory.create();
+						record.status = TestStatus.INACTIVE;
+						await record.save();
+						await testFactory.create();
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?filter=status:inactive')
+							.expect(200);
+
+						expect(res.body.results.map(r => r.id)).to.deep.eq([record.id]);
+					});
+
+					it('can sort', async () => {
+						await testFactory.create({ name: 'b' });
+						await testFactory.create({ name: 'a' });
+						await testFactory.create({ name: 'c' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?sort=name')
+
+						const { body } = res;
+
+						expect(body.results[0].name).to.eq('a');
+						expect(body.results[1].name).to.eq('b');
+						expect(body.results[2].name).to.eq('c');
+					});
+
+					it('can sort via multiple properties', async () => {
+						await testFactory.create({ name: 'same', email: 'b@b.com' });
+						await testFactory.create({ name: 'same', email: 'a@a.com' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?sort=name,email')
+
+						const { body } = res;
+
+						expect(body.results[0].email).to.eq('a@a.com');
+						expect(body.results[1].email).to.eq('b@b.com');
+					});
+
+					it('can reverse sort', async () => {
+						await testFactory.create({ name: 'b' });
+						await testFactory.create({ name: 'a' });
+						await testFactory.create({ name: 'c' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?sort=-name')
+
+						const { body } = res;
+
+						expect(body.results[0].name).to.eq('c');
+						expect(body.results[1].name).to.eq('b');
+						expect(body.results[2].name).to.eq('a');
+					});
+				});
+
+				describe('Fields', () => {
+					it('selects only the requested fields and the primary key', async () => {
+						const test = await testFactory.create({ name: 'a', email: 'a@a.com' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?fields=name')
+							.expect(200);
+
+						expect(res.body.results).to.deep.eq([{ id: test.id, name: 'a' }]);
+					});
+
+					it('selects fields across relationships while paginating', async () => {
+						for (const name of ['b', 'a', 'c']) {
+							const test = await testFactory.create({ name });
+							test.related = await testRelatedFactory.create({ name: `related ${name}` });
+							await test.save();
+						}
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?fields=email,related.name&sort=-name&pageSize=2&filter=related.name__startswith:related')
+							.expect(200);
+
+						expect(res.body.results.map(r => r.related.name)).to.deep.eq(['related c', 'related b']);
+						expect(res.body.results[0]).to.have.property('email');
+						expect(res.body.results[0]).not.to.have.property('createdAt');
+					});
+
+					it('ignores fields that are not selectable', async () => {
+						await testFactory.create();
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?fields=createdAt')
+							.expect(200);
+
+						expect(res.body.results[0]).to.have.property('createdAt');
+						expect(res.body.results[0]).to.have.property('email');
+					});
+				});
+
+				describe('Include', () => {
+					it('loads included relations', async () => {
+						const test = await testFactory.create();
+						test.related = await testRelatedFactory.create();
+						test.related.owner = await testOwnerFactory.create();
+						await test.related.save();
+						await test.save();
+
+						let res = await supertest(app.getHttpServer())
+							.get(api)
+							.expect(200);
+						expect(res.body.results[0]).not.to.have.property('related');
+
+						res = await supertest(app.getHttpServer())
+							.get(api + '?include=related.owner')
+							.expect(200);
+						expect(res.body.results[0].related.owner.name).to.eq(test.related.owner.name);
+					});
+				});
+
+				describe('Search', () => {
+					it('matches any searchable attribute', async () => {
+						const byName = await testFactory.create({ name: 'Cheese Shop', email: 'a@a.com' });
+						const byEmail = await testFactory.create({ name: 'other', email: 'cheese@b.com' });
+						await testFactory.create({ name: 'nope', email: 'c@c.com' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?search=cheese&sort=name')
+							.expect(200);
+
+						expect(res.body.results.map(r => r.id)).to.deep.eq([byName.id, byEmail.id]);
+					});
+
+					it('searches across relationships and non text attributes', async () => {
+						const test = await testFactory.create({ name: 'a', email: 'a@a.com' });
+						test.related = await testRelatedFactory.create({ name: 'zebra' });
+						await test.save();
+						const other = await testFactory.create({ name: 'b', email: 'b@b.com' });
+
+						let res = await supertest(app.getHttpServer())
+							.get(api + '?search=ZEBRA')
+							.expect(200);
+						expect(res.body.results.map(r => r.id)).to.deep.eq([test.id]);
+
+						res = await supertest(app.getHttpServer())
+							.get(api + `?search=${other.id}`)
+							.expect(200);
+						expect(res.body.results.map(r => r.id)).to.include(other.id);
+					});
+
+					it('is combined with filters', async () => {
+						const inactive = await testFactory.create({ name: 'cheese', email: 'a@a.com' });
+						inactive.status = TestStatus.INACTIVE;
+						await inactive.save();
+						const active = await testFactory.create({ name: 'cheese', email: 'b@b.com' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?search=chee&filter=status:active')
+							.expect(200);
+
+						expect(res.body.results.map(r => r.id)).to.deep.eq([active.id]);
+					});
 				});
 			});
+		});
 
-			context('with results', () => {
-				it('paginates correctly', async () => {
-					await testFactory.createMany(9);
+		['/tests/owners', '/tests/owners/repo'].forEach(api => {
+			context(api, () => {
+				it('pages and counts entities when including to-many relations', async () => {
+					for (const name of ['a', 'b', 'c']) {
+						const owner = await testOwnerFactory.create({ name });
+						for (let i = 0; i < 3; ++i) {
+							const related = await testRelatedFactory.create();
+							related.owner = owner;
+							await related.save();
+						}
+					}
 
 					const res = await supertest(app.getHttpServer())
-						.get(api + '?pageSize=2&page=2')
+						.get(api + '?include=related&sort=name&pageSize=2')
 						.expect(200);
 
 					const { body } = res;
+					expect(body.results.map(r => r.name)).to.deep.eq(['a', 'b']);
+					expect(body.results.map(r => r.related.length)).to.deep.eq([3, 3]);
+					expect(body.meta.count).to.eq(3);
+					expect(body.meta.pageCount).to.eq(2);
+				});
+			});
+		});
+
+		describe('Aliases', () => {
+			it('sorts and filters by public names', async () => {
+				for (const [name, relatedName] of [['b', 'x'], ['a', 'y'], ['c', 'y']]) {
+					const test = await testFactory.create({ name, email: `${name}@test.com` });
+					test.related = await testRelatedFactory.create({ name: relatedName });
+					await test.save();
+				}
+
+				const res = await supertest(app.getHttpServer())
+					.get('/tests/aliased?sort=-label&filter=relatedName:y,label__icontains:test.com,created__gte:2000-01-01')
+					.expect(200);
 
-					expect(body.results).to.have.length(2);
+				expect(res.body.results.map(r => r.name)).to.deep.eq(['c', 'a']);
+			});
+
+			it('sorts by the default sort', async () => {
+				const first = await testFactory.create();
+				const second = await testFactory.create();
+
+				const res = await supertest(app.getHttpServer())
+					.get('/tests/aliased')
+					.expect(200);
+
+				expect(res.body.results.map(r => r.id)).to.deep.eq([second.id, first.id]);
+			});
+
+			it('sorts and filters by computed expressions when paginating with joins', async () => {
+				for (const [name, count] of [['a', 1], ['b', 3], ['c', 0], ['d', 2]] as [string, number][]) {
+					const owner = await testOwnerFactory.create({ name });
+					for (let i = 0; i < count; ++i) {
+						const related = await testRelatedFactory.create();
+						related.owner = owner;
+						await related.save();
+					}
+				}
+
+				const res = await supertest(app.getHttpServer())
+					.get('/tests/owners?include=related&sort=-relatedCount&filter=relatedCount__gte:1&pageSize=2')
+					.expect(200);
+
+				expect(res.body.results.map(r => r.name)).to.deep.eq(['b', 'd']);
+				expect(res.body.results.map(r => r.related.length)).to.deep.eq([3, 2]);
+				expect(res.body.meta.count).to.eq(3);
+			});
+
+			it('rejects filter values of the wrong type for typed expressions', async () => {
+				const res = await supertest(app.getHttpServer())
+					.get('/tests/owners?filter=relatedCount__gt:abc,relatedCount__contains:1')
+					.expect(400);
+
+				expect(res.body.message).to.deep.eq([
+					'filter "relatedCount__gt:abc": expected a number',
+					'filter "relatedCount__contains:1": contains is only supported on text attributes',
+				]);
+			});
+
+			it('pages by computed expressions with the cursor paginator', async () => {
+				for (const [name, count] of [['a', 1], ['b', 3], ['c', 0], ['d', 2]] as [string, number][]) {
+					const owner = await testOwnerFactory.create({ name });
+					for (let i = 0; i < count; ++i) {
+						const related = await testRelatedFactory.create();
+						related.owner = owner;
+						await related.save();
+					}
+				}
+
+				const names = [];
+				let res: supertest.Response;
+				let link = '/tests/owners/cursor?include=related&sort=-relatedCount&pageSize=2';
+				while (link) {
+					res = await supertest(app.getHttpServer())
+						.get(link)
+						.expect(200);
+
+					names.push(...res.body.results.map(r => r.name));
+					link = res.body.links.next && pathOf(res.body.links.next);
+				}
+
+				expect(names).to.deep.eq(['b', 'd', 'a', 'c']);
+
+				res = await supertest(app.getHttpServer())
+					.get(pathOf(res.body.links.prev))
+					.expect(200);
+
+				expect(res.body.results.map(r => r.name)).to.deep.eq(['b', 'd']);
+			});
+		});
+
+		['/tests/owners', '/tests/owners/repo'].forEach(api => {
+			context(api, () => {
+				describe('To-Many Filters', () => {
+					async function createOwners() {
+						for (const [name, related] of [['a', ['x', 'y']], ['b', ['y', 'y']], ['c', []]] as [string, string[]][]) {
+							const owner = await testOwnerFactory.create({ name });
+							for (const relatedName of related) {
+								const r = await testRelatedFactory.create({ name: relatedName });
+								r.owner = owner;
+								await r.save();
+							}
+						}
+					}
+
+					async function ownerNames(filter: string) {
+						const res = await supertest(app.getHttpServer())
+							.get(`${api}?sort=name&include=related&filter=${encodeURIComponent(filter)}`)
+							.expect(200);
+
+						expect(res.body.meta.count).to.eq(res.body.results.length);
+						return res.body.results.map(r => r.name);
+					}
+
+					it('matches owners with any matching related row once', async () => {
+						await createOwners();
+
+						const res = await supertest(app.getHttpServer())
+							.get(`${api}?sort=name&include=related&filter=related.name:y&pageSize=1`)
+							.expect(200);
+
+						expect(res.body.results.map(r => r.name)).to.deep.eq(['a']);
+						// included relations aren't filtered
+						expect(res.body.results[0].related).to.have.length(2);
+						expect(res.body.meta.count).to.eq(2);
+					});
+
+					it('supports all and none quantifiers', async () => {
+						await createOwners();
 
-					expect(body.meta.pageCount).to.eq(5);
-					expect(body.meta.pageSize).to.eq(2);
-					expect(body.meta.page).to.eq(2);
-					expect(body.meta.count).to.eq(9);
+						expect(await ownerNames('related.name__eq__any:x')).to.deep.eq(['a']);
+						expect(await ownerNames('related.name__eq__all:y')).to.deep.eq(['b', 'c']);
+						expect(await ownerNames('related.name__eq__none:x')).to.deep.eq(['b', 'c']);
+					});
 
-					expect(body.links.first).to.contain('page=1')
-					expect(body.links.last).to.contain('page=5')
-					expect(body.links.prev).to.contain('page=1')
-					expect(body.links.next).to.contain('page=3')
+					it('negates quantified terms', async () => {
+						await createOwners();
+
+						expect(await ownerNames('!related.name:x')).to.deep.eq(['b', 'c']);
+						expect(await ownerNames('!related.name__eq__all:y')).to.deep.eq(['a']);
+						expect(await ownerNames('name:c|related.name__isnull__any:false')).to.deep.eq(['a', 'b', 'c']);
+					});
 				});
 			});
 		});
 
-		describe('Filter and Sort', () => {
-			it('can filter', async () => {
-				await testFactory.create({ name: 'find me!' });
-				await testFactory.create({ name: 'but not me' });
+		describe('Full Text Search', () => {
+			['/tests/full-text', '/tests/full-text/repo'].forEach(api => {
+				context(api, () => {
+					it('matches words and orders by rank', async () => {
+						const once = await testFactory.create({ name: 'a running cat', email: 'a@a.com' });
+						const twice = await testFactory.create({ name: 'cats chasing a cat', email: 'b@b.com' });
+						await testFactory.create({ name: 'a dog', email: 'd@d.com' });
 
-				const res = await supertest(app.getHttpServer())
-					.get(api + '?filter=name__startswith:find')
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?search=cat')
+							.expect(200);
 
-				const { body } = res;
+						expect(res.body.results.map(r => r.id)).to.deep.eq([twice.id, once.id]);
+					});
+
+					it('orders by rank across related attributes', async () => {
+						const once = await testFactory.create({ name: 'a running cat', email: 'a@a.com' });
+						const twice = await testFactory.create({ name: 'a sleeping cat', email: 'b@b.com' });
+						twice.related = await testRelatedFactory.create({ name: 'another cat' });
+						await twice.save();
+						await testFactory.create({ name: 'a dog', email: 'd@d.com' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?search=cat&pageSize=1')
+							.expect(200);
+
+						expect(res.body.results.map(r => r.id)).to.deep.eq([twice.id]);
+						expect(res.body.meta.count).to.eq(2);
+					});
+
+					it('matches words across attributes', async () => {
+						const record = await testFactory.create({ name: 'john', email: 'smith' });
+						await testFactory.create({ name: 'john', email: 'doe' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?search=john%20smith')
+							.expect(200);
 
-				expect(body.results.length).to.eq(1);
-				expect(body.results[0].name).to.eq('find me!');
+						expect(res.body.results.map(r => r.id)).to.deep.eq([record.id]);
+					});
+
+					it('keeps an explicit sort', async () => {
+						await testFactory.create({ name: 'b cat', email: 'cat@b.com' });
+						await testFactory.create({ name: 'a cat', email: 'a@a.com' });
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?search=cats&sort=name')
+							.expect(200);
+
+						expect(res.body.results.map(r => r.name)).to.deep.eq(['a cat', 'b cat']);
+					});
+				});
 			});
 
-			it('can do multiple filters, which are ANDed', async () => {
-				const record = await testFactory.create({ name: 'find me!', email: 'find@cheese.com' });
-				await testFactory.create({ name: 'dont', email: 'shouldnt@showup.com' });
+			it('pages by rank with the cursor paginator', async () => {
+				const once = await testFactory.create({ name: 'a running cat', email: 'a@a.com' });
+				const twice = await testFactory.create({ name: 'cats chasing a cat', email: 'b@b.com' });
+				await testFactory.create({ name: 'a dog', email: 'd@d.com' });
 
-				const res = await supertest(app.getHttpServer())
-					.get(api + '?filter=name__icontains:ME,email__endswith:cheese.com')
+				let res = await supertest(app.getHttpServer())
+					.get('/tests/full-text/cursor?search=cat&pageSize=1')
+					.expect(200);
 
-				const { body } = res;
+				expect(res.body.results.map(r => r.id)).to.deep.eq([twice.id]);
+
+				res = await supertest(app.getHttpServer())
+					.get(pathOf(res.body.links.next))
+					.expect(200);
 
-				expect(body.results.length).to.eq(1);
-				expect(body.results[0].id).to.eq(record.id);
+				expect(res.body.results.map(r => r.id)).to.deep.eq([once.id]);
+				expect(res.body.links.next).to.be.null;
 			});
+		});
 
-			it('can "not equals" filter', async () => {
-				await testFactory.create({ name: 'thing' });
+		['/tests/cursor', '/tests/cursor/repo'].forEach(api => {
+			context(api, () => {
+				describe('Cursor Pagination', () => {
+					it('walks every record exactly once by following next links', async () => {
+						await testFactory.createMany(5);
 
-				const res = await supertest(app.getHttpServer())
-					.get(api + '?filter=name__neq:notathing')
+						const seen = [];
+						let link = api + '?pageSize=2';
+						while (link) {
+							const res = await supertest(app.getHttpServer())
+								.get(link)
+								.expect(200);
 
-				const { body } = res;
+							seen.push(...res.body.results.map(r => r.id));
+							link = res.body.links.next && pathOf(res.body.links.next);
+						}
+
+						expect(seen).to.have.length(5);
+						expect(new Set(seen).size).to.eq(5);
+					});
+
+					it('honors the sort order', async () => {
+						await testFactory.create({ name: 'b' });
+						await testFactory.create({ name: 'a' });
+						await testFactory.create({ name: 'c' });
+
+						let res = await supertest(app.getHttpServer())
+							.get(api + '?sort=-name&pageSize=2')
+							.expect(200);
+
+						expect(res.body.results.map(r => r.name)).to.deep.eq(['c', 'b']);
+						expect(res.body.links.prev).to.be.null;
+
+						res = await supertest(app.getHttpServer())
+							.get(pathOf(res.body.links.next))
+							.expect(200);
+
+						expect(res.body.results.map(r => r.name)).to.deep.eq(['a']);
+						expect(res.body.links.next).to.be.null;
+						expect(res.body.links.prev).to.contain('sort=-name');
+					});
+
+					it('can page backwards with prev links', async () => {
+						await testFactory.create({ name: 'a' });
+						await testFactory.create({ name: 'b' });
+						await testFactory.create({ name: 'c' });
+
+						let res = await supertest(app.getHttpServer())
+							.get(api + '?sort=name&pageSize=1')
+							.expect(200);
+						res = await supertest(app.getHttpServer())
+							.get(pathOf(res.body.links.next))
+							.expect(200);
+						res = await supertest(app.getHttpServer())
+							.get(pathOf(res.body.links.next))
+							.expect(200);
+
+						expect(res.body.results[0].name).to.eq('c');
+
+						res = await supertest(app.getHttpServer())
+							.get(pathOf(res.body.links.prev))
+							.expect(200);
+
+						expect(res.body.results[0].name).to.eq('b');
+						expect(res.body.links.prev).not.to.be.null;
+						expect(res.body.links.next).not.to.be.null;
+					});
+
+					it('pages through NULL sort values', async () => {
+						await testFactory.createMany(3);
 
-				expect(body.results.length).to.eq(1);
+						let res = await supertest(app.getHttpServer())
+							.get(api + '?sort=nickname&pageSize=2')
+							.expect(200);
+
+						expect(res.body.results).to.have.length(2);
+
+						res = await supertest(app.getHttpServer())
+							.get(pathOf(res.body.links.next))
+							.expect(200);
+
+						expect(res.body.results).to.have.length(1);
+					});
+
+					['nickname', '-nickname'].forEach(sort => {
+						it(`walks mixed NULL sort values both ways with sort=${sort}`, async () => {
+							for (const nickname of ['a', null, 'b', null, 'c']) {
+								const record = await testFactory.create();
+								record.nickname = nickname;
+								await record.save();
+							}
+
+							const forwards = [];
+							let res: supertest.Response;
+							let link = `${api}?sort=${sort}&pageSize=2`;
+							while (link) {
+								res = await supertest(app.getHttpServer())
+									.get(link)
+									.expect(200);
+
+								forwards.push(...res.body.results.map(r => r.id));
+								link = res.body.links.next && pathOf(res.body.links.next);
+							}
+
+							const backwards = [];
+							link = pathOf(res.body.links.prev);
+							backwards.unshift(...res.body.results.map(r => r.id));
+							while (link) {
+								res = await supertest(app.getHttpServer())
+									.get(link)
+									.expect(200);
+
+								backwards.unshift(...res.body.results.map(r => r.id));
+								link = res.body.links.prev && pathOf(res.body.links.prev);
+							}
+
+							expect(forwards).to.have.length(5);
+							expect(backwards).to.deep.eq(forwards);
+						});
+					});
+
+					it('rejects malformed cursors', async () => {
+						await supertest(app.getHttpServer())
+							.get(api + '?after=garbage')
+							.expect(400);
+					});
+
+					it('rejects cursors with values of the wrong type', async () => {
+						await testFactory.create();
+
+						for (const values of [['a', 'abc'], ['a', '99999999999'], ['a', 1], ['a', { id: 1 }]]) {
+							const cursor = Buffer.from(JSON.stringify(values)).toString('base64');
+							await supertest(app.getHttpServer())
+								.get(`${api}?sort=name&after=${encodeURIComponent(cursor)}`)
+								.expect(400);
+						}
+					});
+				});
 			});
+		});
 
-			it('can filter dates', async () => {
-				const past = await testFactory.create();
-				past.createdAt = new Date('2000-01-05');
-				await past.save();
+		['/tests/limit-offset', '/tests/limit-offset/repo'].forEach(api => {
+			context(api, () => {
+				describe('Limit Offset Pagination', () => {
+					it('paginates correctly', async () => {
+						await testFactory.createMany(9);
 
-				const future = await testFactory.create();
-				future.createdAt = new Date('2050-05-10');
-				await future.save();
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?limit=4&offset=2')
+							.expect(200);
 
-				const middle = new Date('2025-02-10');
-				const url = `/tests?filter=createdAt__lt:${(middle.toISOString())}`;
-				const res = await supertest(app.getHttpServer())
-					.get(url)
+						const { body } = res;
 
-				const { body } = res;
+						expect(body.results).to.have.length(4);
 
-				expect(body.results.length).to.eq(1);
-				expect(body.results[0].id).to.eq(past.id);
+						expect(body.meta.limit).to.eq(4);
+						expect(body.meta.offset).to.eq(2);
+						expect(body.meta.count).to.eq(9);
+
+						expect(body.links.first).to.contain('offset=0')
+						expect(body.links.last).to.contain('offset=5')
+						expect(body.links.prev).to.contain('offset=0')
+						expect(body.links.next).to.contain('offset=6')
+						expect(body.links.next).to.contain('limit=4')
+					});
+
+					it('orders by primary key without a sort', async () => {
+						const tests = await testFactory.createMany(4);
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?limit=2&offset=1')
+							.expect(200);
+
+						const ids = tests.map(t => t.id).sort((a, b) => a - b);
+						expect(res.body.results.map(r => r.id)).to.deep.eq(ids.slice(1, 3));
+					});
+
+					it('has no next link on the final page', async () => {
+						await testFactory.createMany(3);
+
+						const res = await supertest(app.getHttpServer())
+							.get(api + '?limit=2&offset=2')
+							.expect(200);
+
+						expect(res.body.results).to.have.length(1);
+						expect(res.body.links.next).to.be.null;
+					});
+				});
 			});
+		});
 
-			it('can filter across relationships', async () => {
-				const test = await testFactory.create();
-				const related = await testRelatedFactory.create();
-				test.related = related;
-				await test.save();
+		describe('Count Strategies', () => {
+			it('pages without counting', async () => {
+				await testFactory.createMany(5);
 
 				let res = await supertest(app.getHttpServer())
-					.get(`/tests?filter=related.name__eq:${related.name}`);
-				let { body } = res;
+					.get('/tests/count/none?pageSize=2')
+					.expect(200);
 
-				expect(body.results.length).to.eq(1);
+				expect(res.body.results).to.have.length(2);
+				expect(res.body.meta).not.to.have.property('count');
+				expect(res.body.meta).not.to.have.property('pageCount');
+				expect(res.body.meta).to.include({ countStrategy: 'none', hasNext: true });
+				expect(res.body.links.next).to.contain('page=2');
+				expect(res.body.links.last).to.be.null;
 
 				res = await supertest(app.getHttpServer())
-					.get(`/tests?filter=related.name__eq:NOTHINGSHOULDMATCH`);
-				expect(res.body.results.length).to.eq(0);
+					.get('/tests/count/none?pageSize=2&page=3')
+					.expect(200);
+
+				expect(res.body.results).to.have.length(1);
+				expect(res.body.meta.hasNext).to.be.false;
+				expect(res.body.links.next).to.be.null;
 			});
 
-			it('can sort', async () => {
-				await testFactory.create({ name: 'b' });
-				await testFactory.create({ name: 'a' });
-				await testFactory.create({ name: 'c' });
+			it('caps counts', async () => {
+				await testFactory.createMany(5);
 
 				const res = await supertest(app.getHttpServer())
-					.get(api + '?sort=name')
+					.get('/tests/count/capped?pageSize=2')
+					.expect(200);
 
-				const { body } = res;
+				expect(res.body.results).to.have.length(2);
+				expect(res.body.meta).to.include({ count: 3, countStrategy: 'capped', hasNext: true });
+				expect(res.body.links.last).to.be.null;
+			});
+
+			it('reports counts below the cap as exact', async () => {
+				await testFactory.createMany(2);
+
+				const res = await supertest(app.getHttpServer())
+					.get('/tests/count/capped?pageSize=2')
+					.expect(200);
+
+				expect(res.body.meta).to.include({ count: 2, countStrategy: 'exact', pageCount: 1, hasNext: false });
+				expect(res.body.links.last).to.contain('page=1');
+			});
+
+			it('estimates counts', async () => {
+				await testFactory.createMany(3, { name: 'x' });
+				await testFactory.createMany(2);
+
+				const res = await supertest(app.getHttpServer())
+					.get('/tests/count/estimated?pageSize=2&filter=name:x')
+					.expect(200);
+
+				expect(res.body.results).to.have.length(2);
+				expect(res.body.meta.countStrategy).to.eq('estimated');
+				expect(res.body.meta.count).to.be.a('number');
+				expect(res.body.meta.hasNext).to.be.true;
+			});
+		});
+
+		describe('Query Parsers', () => {
+			async function createTests() {
+				const bob = await testFactory.create({ name: 'bob, jr', email: 'bob@a.com' });
+				const alice = await testFactory.create({ name: 'alice', email: 'alice@b.com' });
+				await testFactory.create({ name: 'carol', email: 'carol@a.com' });
+				return { bob, alice };
+			}
+
+			it('reads bracket notation', async () => {
+				const { bob, alice } = await createTests();
+
+				const res = await supertest(app.getHttpServer())
+					.get('/tests/brackets?filter[name][in][]=bob, jr&filter[name][in][]=alice&sort[]=-name&sort[]=email')
+					.expect(200);
+
+				expect(res.body.results.map(r => r.id)).to.deep.eq([bob.id, alice.id]);
+			});
+
+			it('reads bracket notation with the default operator', async () => {
+				const { alice } = await createTests();
+
+				const res = await supertest(app.getHttpServer())
+					.get('/tests/brackets?filter[email][endswith]=b.com&filter[name]=alice')
+					.expect(200);
 
-				expect(body.results[0].name).to.eq('a');
-				expect(body.results[1].name).to.eq('b');
-				expect(body.results[2].name).to.eq('c');
+				expect(res.body.results.map(r => r.id)).to.deep.eq([alice.id]);
 			});
 
-			it('can sort via multiple properties', async () => {
-				await testFactory.create({ name: 'same', email: 'b@b.com' });
-				await testFactory.create({ name: 'same', email: 'a@a.com' });
+			it('reads JSON filters', async () => {
+				const { bob, alice } = await createTests();
 
+				const filter = JSON.stringify({ $or: [{ name: 'bob, jr' }, { email: { endswith: 'b.com' } }] });
 				const res = await supertest(app.getHttpServer())
-					.get(api + '?sort=name,email')
+					.get(`/tests/json?filter=${encodeURIComponent(filter)}&sort=${encodeURIComponent('["-name"]')}`)
+					.expect(200);
+
+				expect(res.body.results.map(r => r.id)).to.deep.eq([bob.id, alice.id]);
+			});
+
+			it('rejects invalid JSON', async () => {
+				const res = await supertest(app.getHttpServer())
+					.get('/tests/json?filter=name:bob')
+					.expect(400);
+
+				expect(res.body.message).to.deep.eq(['filter is not valid JSON']);
+			});
+		});
+
+		describe('Formatters', () => {
+			it('formats JSON:API documents', async () => {
+				const created = await testFactory.createMany(3);
+
+				const res = await supertest(app.getHttpServer())
+					.get('/tests/json-api?page[number]=2&page[size]=2')
+					.expect(200);
 
 				const { body } = res;
+				expect(body.data).to.have.length(1);
+				expect(body.data[0].type).to.eq('tests');
+				const resource = created.find(test => test.id.toString() == body.data[0].id);
+				expect(body.data[0].attributes.name).to.eq(resource.name);
+				expect(body.meta).to.include({ page: 2, pageSize: 2, count: 3 });
 
-				expect(body.results[0].email).to.eq('a@a.com');
-				expect(body.results[1].email).to.eq('b@b.com');
+				const prev = new URL(body.links.prev);
+				expect(prev.searchParams.get('page[number]')).to.eq('1');
+				expect(prev.searchParams.get('page[size]')).to.eq('2');
+				expect(body.links.next).to.be.null;
+				expect(new URL(body.links.self).searchParams.get('page[number]')).to.eq('2');
 			});
 
-			it('can reverse sort', async () => {
-				await testFactory.create({ name: 'b' });
-				await testFactory.create({ name: 'a' });
-				await testFactory.create({ name: 'c' });
+			it('formats HAL collections', async () => {
+				await testFactory.createMany(3);
 
 				const res = await supertest(app.getHttpServer())
-					.get(api + '?sort=-name')
+					.get('/tests/hal?pageSize=2')
+					.expect(200);
 
 				const { body } = res;
+				expect(body._embedded.tests).to.have.length(2);
+				expect(body).to.include({ page: 1, pageSize: 2, count: 3 });
+				expect(body._links.next.href).to.contain('page=2');
+				expect(body._links).not.to.have.key('prev');
+			});
+		});
+
+		describe('Pagination Headers', () => {
+			it('moves links and meta into headers', async () => {
+				await testFactory.createMany(5);
+
+				const res = await supertest(app.getHttpServer())
+					.get('/tests/headers?pageSize=2&page=2')
+					.expect(200);
+
+				expect(res.body).to.be.an('array').with.length(2);
+				expect(res.headers['x-total-count']).to.eq('5');
+				expect(res.headers['x-page']).to.eq('2');
+				expect(res.headers['x-page-size']).to.eq('2');
 
-				expect(body.results[0].name).to.eq('c');
-				expect(body.results[1].name).to.eq('b');
-				expect(body.results[2].name).to.eq('a');
+				const links = res.headers['link'].split(', ');
+				expect(links).to.have.length(4);
+				expect(links[0]).to.match(/^<http:\/\/.*\/tests\/headers\?.*page=1.*>; rel="first"$/);
+				expect(links[2]).to.contain('page=3').and.to.contain('rel="next"');
 			});
 		});
 	});
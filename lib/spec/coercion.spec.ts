@@ -0,0 +1,69 @@
+import { BadRequestException } from "@nestjs/common";
+import { expect } from "chai";
+import { coerceFilterTree } from "../coercion";
+import { FilterGroupOps, SearchOps } from "../filters";
+import { connection } from "./helper";
+import { Test } from "./test-app/test.entity";
+
+describe('coerceFilterTree', () => {
+	function coerce(filter: any) {
+		return coerceFilterTree(connection.getMetadata(Test), filter);
+	}
+
+	function errorsFor(filter: any): string[] {
+		try {
+			coerce(filter);
+		} catch (e) {
+			expect(e).to.be.instanceOf(BadRequestException);
+			return e.getResponse().message;
+		}
+
+		throw new Error('expected a BadRequestException');
+	}
+
+	it('coerces values to the column type', () => {
+		const result = coerce({
+			id: { op: SearchOps.GT, value: '5' },
+			createdAt: { op: SearchOps.LT, value: '2025-02-10T00:00:00.000Z' },
+			status: { op: SearchOps.IN, value: ['active', 'inactive'] },
+			name: { op: SearchOps.EQUALS, value: '5' },
+		}) as any;
+
+		expect(result.id.value).to.eq(5);
+		expect(result.createdAt.value).to.be.instanceOf(Date);
+		expect(result.status.value).to.deep.eq(['active', 'inactive']);
+		expect(result.name.value).to.eq('5');
+	});
+
+	it('follows relations and groups', () => {
+		const result = coerce({
+			$or: { op: FilterGroupOps.OR, value: [{ 'related.id': { op: SearchOps.EQUALS, value: '3' } }] },
+		}) as any;
+
+		expect(result.$or.value[0]['related.id'].value).to.eq(3);
+	});
+
+	it('reports every invalid term', () => {
+		const errors = errorsFor({
+			id: { op: SearchOps.GT, value: 'abc' },
+			createdAt: { op: SearchOps.LT, value: 'banana' },
+			status: { op: SearchOps.EQUALS, value: 'deleted' },
+			'related.nothing': { op: SearchOps.EQUALS, value: 'x' },
+		});
+
+		expect(errors).to.deep.eq([
+			'filter "id__gt:abc": expected a number',
+			'filter "createdAt__lt:banana": expected a date',
+			'filter "status__eq:deleted": expected one of active, inactive',
+			'filter "related.nothing__eq:x": unknown attribute',
+		]);
+	});
+
+	it('rejects text operators on other types', () => {
+		const errors = errorsFor({
+			id: { op: SearchOps.CONTAINS, value: '1' },
+		});
+
+		expect(errors).to.deep.eq(['filter "id__contains:1": contains is only supported on text attributes']);
+	});
+});
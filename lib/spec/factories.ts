@@ -2,6 +2,13 @@ import { Factory, Sequence } from '@linnify/typeorm-factory';
 import { Test } from './test-app/test.entity';
 import * as faker from 'faker';
 import { TestRelated } from './test-app/test-related.entity';
+import { TestOwner } from './test-app/test-owner.entity';
+
+export class TestOwnerFactory extends Factory<TestOwner> {
+	entity = TestOwner;
+
+	name = new Sequence((i: number) => `Owner ${i}`)
+}
 
 export class TestRelatedFactory extends Factory<TestRelated> {
 	entity = TestRelated;
@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import supertest = require("supertest");
+import { TestFactory } from "./factories";
+import { app } from "./helper";
+
+let testFactory = new TestFactory();
+
+async function query(source: string) {
+	const res = await supertest(app.getHttpServer())
+		.post('/graphql')
+		.send({ query: source })
+		.expect(200);
+
+	return res.body;
+}
+
+describe('GraphQL', () => {
+	const fields = 'edges { cursor node { id name } } pageInfo { hasNextPage hasPreviousPage startCursor endCursor } totalCount';
+
+	it('walks a connection with first and after', async () => {
+		await testFactory.create({ name: 'b' });
+		await testFactory.create({ name: 'a' });
+		await testFactory.create({ name: 'c' });
+
+		let { data } = await query(`{ tests(first: 2, sort: "name") { ${fields} } }`);
+
+		expect(data.tests.edges.map(e => e.node.name)).to.deep.eq(['a', 'b']);
+		expect(data.tests.pageInfo).to.include({ hasNextPage: true, hasPreviousPage: false });
+		expect(data.tests.pageInfo.endCursor).to.eq(data.tests.edges[1].cursor);
+		expect(data.tests.totalCount).to.be.null;
+
+		({ data } = await query(`{ tests(first: 2, sort: "name", after: "${data.tests.pageInfo.endCursor}") { ${fields} } }`));
+
+		expect(data.tests.edges.map(e => e.node.name)).to.deep.eq(['c']);
+		expect(data.tests.pageInfo).to.include({ hasNextPage: false, hasPreviousPage: true });
+	});
+
+	it('pages backwards with last and before', async () => {
+		await testFactory.create({ name: 'a' });
+		await testFactory.create({ name: 'b' });
+		const { data: { tests } } = await query(`{ tests(sort: "name") { ${fields} } }`);
+
+		const { data } = await query(`{ tests(last: 1, sort: "name", before: "${tests.pageInfo.endCursor}") { ${fields} } }`);
+
+		expect(data.tests.edges.map(e => e.node.name)).to.deep.eq(['a']);
+	});
+
+	it('pages backwards from the end with last alone', async () => {
+		await testFactory.create({ name: 'b' });
+		await testFactory.create({ name: 'c' });
+		await testFactory.create({ name: 'a' });
+
+		let { data } = await query(`{ tests(last: 2, sort: "name") { ${fields} } }`);
+
+		expect(data.tests.edges.map(e => e.node.name)).to.deep.eq(['b', 'c']);
+		expect(data.tests.pageInfo).to.include({ hasNextPage: false, hasPreviousPage: true });
+
+		({ data } = await query(`{ tests(last: 2, sort: "name", before: "${data.tests.pageInfo.startCursor}") { ${fields} } }`));
+
+		expect(data.tests.edges.map(e => e.node.name)).to.deep.eq(['a']);
+		expect(data.tests.pageInfo).to.include({ hasNextPage: true, hasPreviousPage: false });
+	});
+
+	it('counts a cursor connection with a count strategy', async () => {
+		await testFactory.create({ name: 'bob' });
+		await testFactory.create({ name: 'bobby' });
+		await testFactory.create({ name: 'alice' });
+
+		let { data } = await query(`{ countedTests(first: 1, sort: "name", filter: "name__startswith:bob") { ${fields} } }`);
+
+		expect(data.countedTests.edges.map(e => e.node.name)).to.deep.eq(['bob']);
+		expect(data.countedTests.totalCount).to.eq(2);
+
+		({ data } = await query(`{ countedTests(first: 1, sort: "name", filter: "name__startswith:bob", after: "${data.countedTests.pageInfo.endCursor}") { ${fields} } }`));
+
+		expect(data.countedTests.edges.map(e => e.node.name)).to.deep.eq(['bobby']);
+		expect(data.countedTests.totalCount).to.eq(2);
+	});
+
+	it('filters from resolver args', async () => {
+		await testFactory.create({ name: 'bob' });
+		await testFactory.create({ name: 'alice' });
+
+		const { data } = await query(`{ pagedTests(filter: "name:bob|name:carol") { ${fields} } }`);
+
+		expect(data.pagedTests.edges.map(e => e.node.name)).to.deep.eq(['bob']);
+		expect(data.pagedTests.totalCount).to.eq(1);
+	});
+
+	it('counts pages with the paged paginator', async () => {
+		await testFactory.createMany(3);
+
+		const { data } = await query(`{ pagedTests(page: 2, pageSize: 2) { ${fields} } }`);
+
+		expect(data.pagedTests.edges).to.have.length(1);
+		expect(data.pagedTests.pageInfo).to.include({ hasNextPage: false, hasPreviousPage: true });
+		expect(data.pagedTests.totalCount).to.eq(3);
+	});
+});
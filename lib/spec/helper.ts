@@ -1,11 +1,13 @@
 import { INestApplication } from "@nestjs/common";
+import { FastifyAdapter, NestFastifyApplication } from "@nestjs/platform-fastify";
 import { Test, TestingModule } from "@nestjs/testing";
 import { Connection, getConnection } from "typeorm";
-import { AppModule } from "./test-app/app.module";
+import { AppModule, FastifyAppModule } from "./test-app/app.module";
 
 export let connection: Connection;
 export let app: INestApplication;
 export let appModule: TestingModule;
+export let fastifyApp: NestFastifyApplication;
 
 export class SpecHelper {
   public static async setup() {
@@ -19,10 +21,22 @@ export class SpecHelper {
     app = appModule.createNestApplication();
     await app.init();
 
+    const fastifyModule = await Test.createTestingModule({
+      imports: [
+        FastifyAppModule,
+      ]
+    }).compile();
+
+    fastifyApp = fastifyModule.createNestApplication<NestFastifyApplication>(new FastifyAdapter());
+    await fastifyApp.init();
+    await fastifyApp.getHttpAdapter().getInstance().ready();
+
     connection = getConnection();
   }
 
   public static async teardown() {
+    await fastifyApp.close();
+    await app.close();
     await connection.close();
   }
 }
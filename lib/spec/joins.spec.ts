@@ -0,0 +1,49 @@
+import { expect } from "chai";
+import "../sort-and-filter";
+import { SearchOps } from "../sort-and-filter";
+import { connection } from "./helper";
+import { Test } from "./test-app/test.entity";
+
+describe('sortAndFilter joins', () => {
+	function queryBuilder() {
+		return connection.getRepository(Test).createQueryBuilder('test');
+	}
+
+	it('joins every level of a relation path', () => {
+		const qb = queryBuilder().sortAndFilter({
+			filter: { 'related.owner.name': { op: SearchOps.EQUALS, value: 'x' } },
+		});
+
+		const joins = qb.expressionMap.joinAttributes.map(j => j.entityOrProperty);
+		expect(joins).to.deep.eq(['test.related', 'test__related.owner']);
+	});
+
+	it('joins a relation once when it is sorted and filtered on', () => {
+		const qb = queryBuilder().sortAndFilter({
+			sort: { 'related.name': 'ASC' },
+			filter: {
+				'related.name': { op: SearchOps.EQUALS, value: 'x' },
+				'related.id': { op: SearchOps.GT, value: '1' },
+			},
+		});
+
+		expect(qb.expressionMap.joinAttributes).to.have.length(1);
+	});
+
+	it('reuses joins already on the query builder', () => {
+		const qb = queryBuilder()
+			.leftJoinAndSelect('test.related', 'r')
+			.sortAndFilter({ sort: { 'related.name': 'DESC' } });
+
+		expect(qb.expressionMap.joinAttributes).to.have.length(1);
+		expect(qb.expressionMap.orderBys).to.have.key('r.name');
+	});
+
+	it('can join without selecting', () => {
+		const qb = queryBuilder().sortAndFilter({
+			filter: { 'related.name': { op: SearchOps.EQUALS, value: 'x' } },
+		}, { selectJoins: false });
+
+		expect(qb.expressionMap.joinAttributes[0].isSelected).to.be.false;
+	});
+});
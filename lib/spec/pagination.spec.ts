@@ -1,6 +1,6 @@
 import { ROUTE_ARGS_METADATA } from "@nestjs/common/constants";
 import { expect } from "chai";
-import { Paginate, PaginateConfig, PaginateParams } from "../paginators";
+import { CursorPaginator, LimitOffsetPaginator, Paginate, PaginateConfig, PaginateParams, setPaginateDefaults } from "../paginators";
 
 describe('@Paginate', () => {
 	it('interprets page query params', () => {
@@ -34,6 +34,41 @@ describe('@Paginate', () => {
 		expect(result.baseUrl).to.eq('http://localhost:3000/');
 	})
 
+	describe('links', () => {
+		const forwarded = {
+			'x-forwarded-proto': 'https',
+			'x-forwarded-host': 'api.example.com, internal-host',
+			'x-forwarded-prefix': '/v1/',
+		};
+
+		afterEach(() => setPaginateDefaults({}));
+
+		it('ignores forwarded headers by default', () => {
+			const result = getPaginationFactory()(executionContextWithQueryParams({}, forwarded));
+
+			expect(result.baseUrl).to.eq('http://localhost:3000/');
+		});
+
+		it('honors forwarded headers with trustProxy', () => {
+			const result = getPaginationFactory({ trustProxy: true })(executionContextWithQueryParams({}, forwarded));
+
+			expect(result.baseUrl).to.eq('https://api.example.com/v1/');
+		});
+
+		it('uses a configured base url', () => {
+			setPaginateDefaults({ baseUrl: 'https://api.example.com/' });
+			const result = getPaginationFactory()(executionContextWithQueryParams({}));
+
+			expect(result.baseUrl).to.eq('https://api.example.com/');
+		});
+
+		it('can make relative links', () => {
+			const result = getPaginationFactory({ relativeLinks: true })(executionContextWithQueryParams({}));
+
+			expect(result.baseUrl).to.eq('/');
+		});
+	});
+
 	it('does not allow a page size beyond the max', () => {
 		const executionContext = executionContextWithQueryParams({
 			pageSize: 1000
@@ -71,14 +106,62 @@ describe('@Paginate', () => {
 
 		expect(result.pageSize).to.eq(30);
 	})
+
+	it('passes cursor query params through', () => {
+		const executionContext = executionContextWithQueryParams({
+			after: 'abc',
+			before: 'def',
+		});
+
+		const factory = getPaginationFactory({
+			paginator: CursorPaginator
+		});
+		const result = factory(executionContext);
+
+		expect(result.after).to.eq('abc');
+		expect(result.before).to.eq('def');
+	})
+
+	context('with the LimitOffsetPaginator', () => {
+		it('interprets limit and offset query params', () => {
+			const executionContext = executionContextWithQueryParams({
+				limit: 50,
+				offset: 100,
+				page: 3,
+			});
+
+			const factory = getPaginationFactory({
+				paginator: LimitOffsetPaginator
+			});
+			const result = factory(executionContext);
+
+			expect(result.pageSize).to.eq(50);
+			expect(result.offset).to.eq(100);
+			expect(result.page).to.be.undefined;
+		})
+
+		it('applies maxPageSize and defaultPageSize to limit', () => {
+			const factory = getPaginationFactory({
+				paginator: LimitOffsetPaginator,
+				maxPageSize: 10,
+				defaultPageSize: 5,
+			});
+
+			expect(factory(executionContextWithQueryParams({})).pageSize).to.eq(5);
+			expect(factory(executionContextWithQueryParams({ limit: 1000 })).pageSize).to.eq(10);
+			expect(factory(executionContextWithQueryParams({})).offset).to.eq(0);
+		})
+	})
 })
 
-function executionContextWithQueryParams(query: any) {
+function executionContextWithQueryParams(query: any, headers: any = {}) {
 	return {
 		switchToHttp: () => ({
 			getRequest: () => ({
 				query,
 				protocol: 'http',
+				headers: { host: 'localhost:3000', ...headers },
+				originalUrl: '/',
 				baseUrl: '/',
 				path: '',
 				get() {
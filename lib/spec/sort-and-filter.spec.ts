@@ -1,6 +1,9 @@
+import { BadRequestException } from '@nestjs/common';
 import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
 import { expect } from "chai";
-import { SortAndFilter, SortAndFilterConfig, SortAndFilterParams } from '../sort-and-filter';
+import { Filterable, Sortable } from '../entity-decorators';
+import { bracketParser, jsonParser } from '../parsers';
+import { setSortAndFilterDefaults, sortAndFilter, SearchOps, SortAndFilter, SortAndFilterConfig, SortAndFilterParams } from '../sort-and-filter';
 
 describe('@SortAndFilter', () => {
 	describe('sorting', () => {
@@ -112,6 +115,455 @@ describe('@SortAndFilter', () => {
 
 			expect(result.filter).not.to.contain.keys('rejected');
 		})
+
+		it('splits list values on semicolons', () => {
+			const executionContext = executionContextWithQueryParams({
+				filter: 'status__in:a;b;c,createdAt__between:2020-01-01;2021-01-01,deletedAt__isnull:true'
+			})
+
+			const factory = getSortAndFilterFactory();
+			const result = factory(executionContext);
+
+			expect(result.filter.status).to.deep.eq({ op: 'in', value: ['a', 'b', 'c'] });
+			expect(result.filter.createdAt).to.deep.eq({ op: 'between', value: ['2020-01-01', '2021-01-01'] });
+			expect(result.filter.deletedAt).to.deep.eq({ op: 'isnull', value: 'true' });
+		})
+
+		it('drops between filters without exactly two values', () => {
+			const executionContext = executionContextWithQueryParams({
+				filter: 'createdAt__between:2020-01-01'
+			})
+
+			const factory = getSortAndFilterFactory();
+			const result = factory(executionContext);
+
+			expect(result.filter).not.to.contain.keys('createdAt');
+		})
+
+		describe('expressions', () => {
+			it('parses OR groups', () => {
+				const executionContext = executionContextWithQueryParams({
+					filter: '(status:active|status:trial),email__endswith:test.com'
+				})
+
+				const factory = getSortAndFilterFactory();
+				const result = factory(executionContext);
+
+				expect(result.filter.email).to.deep.eq({ op: 'endswith', value: 'test.com' });
+				expect(result.filter.$or).to.deep.eq({
+					op: 'or',
+					value: [
+						{ status: { op: 'eq', value: 'active' } },
+						{ status: { op: 'eq', value: 'trial' } },
+					],
+				});
+			});
+
+			it('gives AND precedence over OR', () => {
+				const executionContext = executionContextWithQueryParams({
+					filter: 'a:1,b:2|c:3'
+				})
+
+				const factory = getSortAndFilterFactory();
+				const result = factory(executionContext);
+
+				expect(result.filter.$or.value).to.deep.eq([
+					{ a: { op: 'eq', value: '1' }, b: { op: 'eq', value: '2' } },
+					{ c: { op: 'eq', value: '3' } },
+				]);
+			});
+
+			it('parses negation', () => {
+				const executionContext = executionContextWithQueryParams({
+					filter: '!email__endswith:test.com'
+				})
+
+				const factory = getSortAndFilterFactory();
+				const result = factory(executionContext);
+
+				expect(result.filter.$not).to.deep.eq({
+					op: 'not',
+					value: [{ email: { op: 'endswith', value: 'test.com' } }],
+				});
+			});
+
+			it('keeps repeated attributes', () => {
+				const executionContext = executionContextWithQueryParams({
+					filter: 'age__gt:5,age__lt:10'
+				})
+
+				const factory = getSortAndFilterFactory();
+				const result = factory(executionContext);
+
+				expect(result.filter.age).to.deep.eq({ op: 'gt', value: '5' });
+				expect(result.filter.$and).to.deep.eq({
+					op: 'and',
+					value: [{ age: { op: 'lt', value: '10' } }],
+				});
+			});
+
+			it('drops terms that are not filterable, and groups left empty', () => {
+				const executionContext = executionContextWithQueryParams({
+					filter: '(allowed:1|rejected:2),!rejected:3'
+				})
+
+				const factory = getSortAndFilterFactory({
+					filterable: ['allowed']
+				});
+				const result = factory(executionContext);
+
+				expect(result.filter).to.deep.eq({ allowed: { op: 'eq', value: '1' } });
+			});
+		});
+	});
+
+	describe('escaping', () => {
+		it('reads quoted and escaped values', () => {
+			const result = getSortAndFilterFactory()(executionContextWithQueryParams({
+				filter: '(name:"Doe, John (Jr)"|email:a\\,b\\|c),nickname__in:"a;b";c\\;d;\\"e\\"',
+			}));
+
+			expect(result.filter).to.deep.eq({
+				$or: { op: 'or', value: [
+					{ name: { op: SearchOps.EQUALS, value: 'Doe, John (Jr)' } },
+					{ email: { op: SearchOps.EQUALS, value: 'a,b|c' } },
+				] },
+				nickname: { op: SearchOps.IN, value: ['a;b', 'c;d', '"e"'] },
+			});
+		});
+	});
+
+	describe('quantifiers', () => {
+		it('parses quantifiers after the operator', () => {
+			const result = getSortAndFilterFactory()(executionContextWithQueryParams({
+				filter: 'orders.status__eq__all:paid,tags.name__in__none:a;b',
+			}));
+
+			expect(result.filter).to.deep.eq({
+				'orders.status': { op: SearchOps.EQUALS, value: 'paid', quantifier: 'all' },
+				'tags.name': { op: SearchOps.IN, value: ['a', 'b'], quantifier: 'none' },
+			});
+		});
+
+		it('rejects unknown quantifiers in strict mode', () => {
+			const factory = getSortAndFilterFactory({ strict: true });
+
+			expect(() => factory(executionContextWithQueryParams({ filter: 'orders.status__eq__most:paid' }))).to.throw(BadRequestException);
+		});
+	});
+
+	describe('per attribute operators', () => {
+		it('drops operators the attribute does not allow', () => {
+			const executionContext = executionContextWithQueryParams({
+				filter: 'name__icontains:bob,email__gt:b,createdAt__gte:2020-01-01,email:a@b.c'
+			})
+
+			const factory = getSortAndFilterFactory({
+				filterable: { name: ['eq', 'icontains'], email: ['eq'], createdAt: ['gte', 'lte'] }
+			});
+			const result = factory(executionContext);
+
+			expect(result.filter).to.deep.eq({
+				name: { op: 'icontains', value: 'bob' },
+				createdAt: { op: 'gte', value: '2020-01-01' },
+				email: { op: 'eq', value: 'a@b.c' },
+			});
+		});
+
+		it('lists the allowed operators in strict mode', () => {
+			const factory = getSortAndFilterFactory({
+				filterable: { email: ['eq', SearchOps.ENDSWITH] },
+				strict: true,
+			});
+
+			try {
+				factory(executionContextWithQueryParams({ filter: 'email__gt:b' }));
+				expect.fail('expected a BadRequestException');
+			} catch (e) {
+				expect(e).to.be.instanceOf(BadRequestException);
+				expect(e.getResponse().errors).to.deep.eq([{
+					param: 'filter',
+					field: 'email',
+					operator: 'gt',
+					message: 'filter "email__gt:b": gt is not allowed on email, expected one of eq, endswith',
+					allowed: ['eq', 'endswith'],
+				}]);
+			}
+		});
+	});
+
+	describe('fields', () => {
+		it('keeps only selectable fields', () => {
+			const executionContext = executionContextWithQueryParams({
+				fields: 'name,password,related.name'
+			})
+
+			const factory = getSortAndFilterFactory({
+				selectable: ['name', 'related.name']
+			});
+			const result = factory(executionContext);
+
+			expect(result.fields).to.deep.eq(['name', 'related.name']);
+		});
+
+		it('ignores fields without a selectable config', () => {
+			const result = getSortAndFilterFactory()(executionContextWithQueryParams({ fields: 'name' }));
+
+			expect(result.fields).to.be.undefined;
+		});
+	});
+
+	describe('include', () => {
+		it('keeps only includable relations', () => {
+			const factory = getSortAndFilterFactory({
+				includable: ['related', 'related.owner']
+			});
+			const result = factory(executionContextWithQueryParams({ include: 'related.owner,secrets' }));
+
+			expect(result.include).to.deep.eq(['related.owner']);
+		});
+
+		it('rejects relations that are not includable in strict mode', () => {
+			const factory = getSortAndFilterFactory({ includable: ['related'], strict: true });
+
+			expect(() => factory(executionContextWithQueryParams({ include: 'secrets' }))).to.throw(BadRequestException);
+		});
+	});
+
+	describe('entity decorators', () => {
+		class Animal {
+			@Sortable()
+			@Filterable({ ops: ['eq'] })
+			name: string;
+		}
+
+		class Dog extends Animal {
+			@Sortable()
+			@Filterable()
+			age: number;
+
+			@Filterable({ ops: ['eq', 'icontains'] })
+			name: string;
+		}
+
+		it('reads sortable and filterable attributes from the entity', () => {
+			const factory = getSortAndFilterFactory({ entity: Dog });
+			const result = factory(executionContextWithQueryParams({
+				sort: 'age,-name,secret',
+				filter: 'age__gt:2,name__icontains:rex,secret:1',
+			}));
+
+			expect(result.sort).to.deep.eq({ age: 'ASC', name: 'DESC' });
+			expect(result.filter).to.deep.eq({
+				age: { op: SearchOps.GT, value: '2' },
+				name: { op: SearchOps.ICONTAINS, value: 'rex' },
+			});
+		});
+
+		it('keeps the operators of the decorated class', () => {
+			const factory = getSortAndFilterFactory({ entity: Animal });
+			const result = factory(executionContextWithQueryParams({ filter: 'name__icontains:rex' }));
+
+			expect(result.filter).to.deep.eq({});
+		});
+
+		it('merges explicit config', () => {
+			const factory = getSortAndFilterFactory({
+				entity: Dog,
+				sortable: ['breed'],
+				filterable: { name: ['eq'], breed: ['eq'] },
+			});
+			const result = factory(executionContextWithQueryParams({
+				sort: 'breed,age',
+				filter: 'breed:pug,name__icontains:rex',
+			}));
+
+			expect(result.sort).to.deep.eq({ breed: 'ASC', age: 'ASC' });
+			expect(result.filter).to.deep.eq({ breed: { op: SearchOps.EQUALS, value: 'pug' } });
+		});
+
+		it('allows nothing for an entity without decorated attributes', () => {
+			class Cat {
+				name: string;
+			}
+
+			const factory = getSortAndFilterFactory({ entity: Cat });
+			const result = factory(executionContextWithQueryParams({ sort: 'name', filter: 'name:tom' }));
+
+			expect(result.sort).to.deep.eq({});
+			expect(result.filter).to.deep.eq({});
+		});
+	});
+
+	describe('default sort', () => {
+		it('sorts by the default sort when the request does not', () => {
+			const factory = getSortAndFilterFactory({ sortable: ['name'], defaultSort: { createdAt: 'DESC' } });
+
+			expect(factory(executionContextWithQueryParams({})).sort).to.deep.eq({ createdAt: 'DESC' });
+			expect(factory(executionContextWithQueryParams({ sort: 'secret' })).sort).to.deep.eq({ createdAt: 'DESC' });
+			expect(factory(executionContextWithQueryParams({ sort: 'name' })).sort).to.deep.eq({ name: 'ASC' });
+		});
+
+		it('leaves ranked full text searches ordered by relevance', () => {
+			const factory = getSortAndFilterFactory({
+				searchable: ['name'],
+				fullTextSearch: { rank: true },
+				defaultSort: { createdAt: 'DESC' },
+			});
+
+			expect(factory(executionContextWithQueryParams({ search: 'bob' })).sort).to.deep.eq({});
+		});
+	});
+
+	describe('aliases', () => {
+		const fullName = (alias: string) => `${alias}.first_name || ' ' || ${alias}.last_name`;
+
+		it('maps public names to property paths and expressions', () => {
+			const factory = getSortAndFilterFactory({
+				sortable: ['company', 'fullName'],
+				aliases: { company: 'employer.name', fullName },
+			});
+			const result = factory(executionContextWithQueryParams({
+				sort: 'company,-fullName',
+				filter: '(company:acme|fullName__icontains:bob),id:1',
+			}));
+
+			expect(result.sort).to.deep.eq({ 'employer.name': 'ASC', fullName: 'DESC' });
+			expect(result.filter).to.deep.eq({
+				$or: { op: 'or', value: [
+					{ 'employer.name': { op: SearchOps.EQUALS, value: 'acme' } },
+					{ fullName: { op: SearchOps.ICONTAINS, value: 'bob' } },
+				] },
+				id: { op: SearchOps.EQUALS, value: '1' },
+			});
+			expect(result.expressions).to.deep.eq({ fullName });
+		});
+	});
+
+	describe('parsers', () => {
+		const config: SortAndFilterConfig = { sortable: ['name', 'age'], filterable: ['name', 'age', 'orders.status'] };
+		const expected = getSortAndFilterFactory(config)(executionContextWithQueryParams({
+			sort: '-name,age',
+			filter: 'name__icontains:"a, b",age__in:1;2,orders.status__eq__all:paid',
+		}));
+
+		it('reads bracket notation into the same params', () => {
+			const factory = getSortAndFilterFactory({ ...config, parser: bracketParser() });
+			const result = factory(executionContextWithQueryParams({
+				sort: ['-name', 'age'],
+				filter: { name: { icontains: 'a, b' }, age: { in: ['1', '2'] }, 'orders.status': { eq__all: 'paid' } },
+			}));
+
+			expect(result).to.deep.eq(expected);
+		});
+
+		it('reads flat bracket keys', () => {
+			const factory = getSortAndFilterFactory({ ...config, parser: bracketParser() });
+			const result = factory(executionContextWithQueryParams({
+				'sort[]': ['-name', 'age'],
+				'filter[name][icontains]': 'a, b',
+				'filter[age][in]': '1,2',
+				'filter[orders.status][eq__all]': 'paid',
+			}));
+
+			expect(result).to.deep.eq(expected);
+		});
+
+		it('reads JSON into the same params', () => {
+			const factory = getSortAndFilterFactory({ ...config, parser: jsonParser() });
+			const result = factory(executionContextWithQueryParams({
+				sort: '["-name","age"]',
+				filter: JSON.stringify({ name: { icontains: 'a, b' }, age: [1, 2], 'orders.status': { eq__all: 'paid' } }),
+			}));
+
+			expect(result).to.deep.eq(expected);
+		});
+
+		it('reads JSON groups and nulls', () => {
+			const factory = getSortAndFilterFactory({ parser: jsonParser() });
+			const result = factory(executionContextWithQueryParams({
+				filter: JSON.stringify({ $not: { $or: [{ name: null }, { name: 'x"y' }] } }),
+			}));
+
+			expect(result.filter).to.deep.eq({
+				$not: { op: 'not', value: [{
+					$or: { op: 'or', value: [
+						{ name: { op: SearchOps.ISNULL, value: 'true' } },
+						{ name: { op: SearchOps.EQUALS, value: 'x"y' } },
+					] },
+				}] },
+			});
+		});
+	});
+
+	describe('strict mode', () => {
+		afterEach(() => setSortAndFilterDefaults({}));
+
+		function strictErrors(query: any, config: SortAndFilterConfig) {
+			const factory = getSortAndFilterFactory(config);
+			try {
+				factory(executionContextWithQueryParams(query));
+			} catch (e) {
+				expect(e).to.be.instanceOf(BadRequestException);
+				return e.getResponse().errors;
+			}
+
+			expect.fail('expected a BadRequestException');
+		}
+
+		it('rejects attributes that are not sortable', () => {
+			const errors = strictErrors({ sort: 'allowed,-rejected' }, { sortable: ['allowed'], strict: true });
+
+			expect(errors).to.have.length(1);
+			expect(errors[0]).to.include({ param: 'sort', field: 'rejected' });
+			expect(errors[0].allowed).to.deep.eq(['allowed']);
+		});
+
+		it('rejects attributes that are not filterable, even within groups', () => {
+			const errors = strictErrors({ filter: 'allowed:1|!rejected:2' }, { filterable: ['allowed'], strict: true });
+
+			expect(errors).to.have.length(1);
+			expect(errors[0]).to.include({ param: 'filter', field: 'rejected' });
+			expect(errors[0].allowed).to.deep.eq(['allowed']);
+		});
+
+		it('rejects unknown operators', () => {
+			const errors = strictErrors({ filter: 'name__icontain:bob' }, { strict: true });
+
+			expect(errors).to.have.length(1);
+			expect(errors[0]).to.include({ param: 'filter', field: 'name', operator: 'icontain' });
+			expect(errors[0].allowed).to.include(SearchOps.ICONTAINS);
+		});
+
+		it('uses the global default unless the decorator overrides it', () => {
+			setSortAndFilterDefaults({ strict: true });
+
+			expect(strictErrors({ sort: 'rejected' }, { sortable: ['allowed'] })).to.have.length(1);
+
+			const factory = getSortAndFilterFactory({ sortable: ['allowed'], strict: false });
+			const result = factory(executionContextWithQueryParams({ sort: 'rejected' }));
+			expect(result.sort).to.deep.eq({});
+		});
+	});
+});
+
+describe('sortAndFilter()', () => {
+	it('nests dotted paths and adds the relations they need', () => {
+		const options = sortAndFilter({
+			sort: { 'related.name': 'DESC', name: 'ASC' },
+			filter: { 'related.owner.name': { op: SearchOps.EQUALS, value: 'bob' } },
+		});
+
+		expect(options.order).to.deep.eq({ related: { name: 'DESC' }, name: 'ASC' });
+		expect(options.where).to.be.a('function');
+		expect(options.relations).to.have.members(['related', 'related.owner']);
+	});
+
+	it('rejects computed attributes', () => {
+		expect(() => sortAndFilter({
+			sort: { fullName: 'ASC' },
+			expressions: { fullName: alias => `${alias}.name` },
+		})).to.throw(/query builder/);
 	});
 });
 
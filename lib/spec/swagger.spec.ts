@@ -0,0 +1,65 @@
+import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { expect } from "chai";
+import { app } from './helper';
+
+describe('swagger', () => {
+	let document: any;
+
+	before(() => {
+		document = SwaggerModule.createDocument(app, new DocumentBuilder().build());
+	});
+
+	function queryParams(path: string) {
+		return document.paths[path].get.parameters.reduce((params: any, param: any) => {
+			params[param.name] = param;
+			return params;
+		}, {});
+	}
+
+	it('documents paged pagination params', () => {
+		const params = queryParams('/tests');
+
+		expect(params.page.in).to.eq('query');
+		expect(params.pageSize.schema).to.include({ type: 'integer', maximum: 100, default: 10 });
+	});
+
+	it('documents the params of other paginators', () => {
+		expect(queryParams('/tests/cursor')).to.include.keys(['pageSize', 'after', 'before']);
+		expect(queryParams('/tests/limit-offset')).to.include.keys(['limit', 'offset']);
+	});
+
+	it('documents the query param names of the formatter', () => {
+		const params = queryParams('/tests/json-api');
+
+		expect(params).to.have.keys(['page[number]', 'page[size]']);
+		expect(params['page[size]'].schema).to.include({ maximum: 100 });
+	});
+
+	it('documents sortable and filterable attributes', () => {
+		const params = queryParams('/tests');
+
+		expect(params.sort.description).to.contain('Sortable: name, email, related.name.');
+		expect(params.filter.description).to.contain('Filterable: id, name, email');
+		expect(params.filter.description).to.contain('icontains');
+		expect(params.search.description).to.eq('Searches id, name, email, related.name.');
+	});
+
+	it('documents selectable and includable attributes', () => {
+		const params = queryParams('/tests');
+
+		expect(params.fields.description).to.contain('Selectable: name, email, related.name.');
+		expect(params.include.description).to.contain('Includable: related, related.owner.');
+	});
+
+	it('documents paginated responses', () => {
+		const schema = document.paths['/tests'].get.responses['200'].content['application/json'].schema;
+
+		expect(schema.properties.results.items.$ref).to.eq('#/components/schemas/Test');
+		expect(schema.properties.meta.$ref).to.eq('#/components/schemas/PaginatedMeta');
+		expect(document.components.schemas.PaginatedLinks.properties).to.have.keys(['first', 'next', 'prev', 'last']);
+
+		const meta = document.components.schemas.PaginatedMeta.properties;
+		expect(meta.countStrategy.enum).to.deep.eq(['exact', 'capped', 'estimated', 'none']);
+		expect(meta.hasNext.type).to.eq('boolean');
+	});
+});
@@ -1,21 +1,40 @@
 import { Module } from "@nestjs/common";
+import { GraphQLModule } from "@nestjs/graphql";
 import { TypeOrmModule } from "@nestjs/typeorm";
+import { TestOwner } from "./test-owner.entity";
 import { TestRelated } from "./test-related.entity";
 import { Test } from "./test.entity";
 import { TestModule } from "./test.module";
 
+// NOTE: the express and fastify apps share one connection
+const database = TypeOrmModule.forRoot({
+  type: 'postgres',
+  username: process.env.DB_USER || undefined,
+  host: 'localhost',
+  database: 'nestjs-psf-tests',
+  entities: [Test, TestRelated, TestOwner],
+  synchronize: true,
+  keepConnectionAlive: true,
+});
+
 @Module({
   imports: [
-    TypeOrmModule.forRoot({
-      type: 'postgres',
-      username: process.env.DB_USER || undefined,
-      host: 'localhost',
-      database: 'nestjs-psf-tests',
-      entities: [Test, TestRelated],
-      synchronize: true,
+    database,
+
+    GraphQLModule.forRoot({
+      autoSchemaFile: true,
     }),
 
     TestModule
   ],
 })
-export class AppModule {};
\ No newline at end of file
+export class AppModule {};
+
+// GraphQL is only served by the express app
+@Module({
+  imports: [
+    database,
+    TestModule
+  ],
+})
+export class FastifyAppModule {};
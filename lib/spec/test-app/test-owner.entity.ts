@@ -0,0 +1,14 @@
+import { BaseEntity, Column, Entity, OneToMany, PrimaryGeneratedColumn } from "typeorm";
+import { TestRelated } from "./test-related.entity";
+
+@Entity()
+export class TestOwner extends BaseEntity {
+	@PrimaryGeneratedColumn()
+	id: number;
+
+	@Column()
+	name: string;
+
+	@OneToMany(() => TestRelated, r => r.owner)
+	related: TestRelated[];
+}
@@ -1,4 +1,5 @@
-import { BaseEntity, Column, CreateDateColumn, Entity, OneToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { BaseEntity, Column, CreateDateColumn, Entity, ManyToOne, OneToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { TestOwner } from "./test-owner.entity";
 import { Test } from "./test.entity";
 
 @Entity()
@@ -11,4 +12,7 @@ export class TestRelated extends BaseEntity {
 
     @OneToOne(() => Test, t => t.related)
     test: Test;
+
+    @ManyToOne(() => TestOwner, o => o.related)
+    owner: TestOwner;
 }
\ No newline at end of file
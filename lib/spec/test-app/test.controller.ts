@@ -1,23 +1,62 @@
-import { Controller, Get } from "@nestjs/common";
+import { Controller, Get, Param } from "@nestjs/common";
+import { halFormatter, HalCollection, JsonApiDocument, jsonApiFormatter } from "../../formatters";
+import { PaginationHeaders } from "../../headers";
+import { bracketParser, jsonParser } from "../../parsers";
 import { InjectRepository } from "@nestjs/typeorm";
 import { Repository } from "typeorm";
-import { paginate, Paginate, Paginated, PaginateParams } from "../../paginators";
-import { sortAndFilter, SortAndFilter, SortAndFilterParams } from "../../sort-and-filter";
+import { CountStrategy, CursorPaginator, LimitOffsetPaginator, paginate, Paginate, PaginateConfig, Paginated, PaginateParams } from "../../paginators";
+import { sortAndFilter, SortAndFilter, SortAndFilterConfig, SortAndFilterParams } from "../../sort-and-filter";
+import { ApiPaginate, ApiPaginatedResponse, ApiSortAndFilter } from "../../swagger";
+import { TestOwner } from "./test-owner.entity";
 import { Test } from "./test.entity";
 
+const testsConfig: SortAndFilterConfig = {
+	sortable: ['name', 'email', 'related.name'],
+	filterable: ['id', 'name', 'email', 'nickname', 'status', 'createdAt', 'related.id', 'related.name', 'related.owner.name'],
+	searchable: ['id', 'name', 'email', 'related.name'],
+	selectable: ['name', 'email', 'related.name'],
+	includable: ['related', 'related.owner'],
+};
+
+const ownersConfig: SortAndFilterConfig = {
+	sortable: ['name', 'relatedCount'],
+	filterable: ['name', 'relatedCount', 'related.name'],
+	includable: ['related'],
+	aliases: {
+		relatedCount: {
+			expression: alias => `(SELECT COUNT(*) FROM test_related r WHERE r."ownerId" = ${alias}.id)`,
+			type: 'number',
+		},
+	},
+};
+
+const fullTextConfig: SortAndFilterConfig = {
+	sortable: ['name'],
+	searchable: ['name', 'email', 'related.name'],
+	fullTextSearch: { language: 'english', rank: true },
+};
+
+const jsonApiConfig: PaginateConfig = {
+	maxPageSize: 100,
+	formatter: jsonApiFormatter('tests'),
+};
+
 @Controller('tests')
 export class TestController {
-	constructor(@InjectRepository(Test) private readonly testRepository: Repository<Test>) {}
+	constructor(
+		@InjectRepository(Test) private readonly testRepository: Repository<Test>,
+		@InjectRepository(TestOwner) private readonly ownerRepository: Repository<TestOwner>,
+	) {}
 
 	@Get('')
+	@ApiPaginate({ maxPageSize: 100 })
+	@ApiSortAndFilter(testsConfig)
+	@ApiPaginatedResponse(Test)
 	async index(
 	    @Paginate({
 	      maxPageSize: 100
 	    }) paginateParams: PaginateParams,
-	    @SortAndFilter({
-	      sortable: ['name', 'email'],
-	      filterable: ['name', 'email', 'createdAt', 'related.name'],
-	    }) sortAndFilterParams: SortAndFilterParams,
+	    @SortAndFilter(testsConfig) sortAndFilterParams: SortAndFilterParams,
 	): Promise<Paginated<Test>> {
 		return this.testRepository
 			.createQueryBuilder('test')
@@ -30,11 +69,227 @@ export class TestController {
 	    @Paginate({
 	      maxPageSize: 100
 	    }) paginateParams: PaginateParams,
+	    @SortAndFilter(testsConfig) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<Test>> {
+		return paginate(this.testRepository, paginateParams, sortAndFilter(sortAndFilterParams, this.testRepository));
+	}
+
+	@Get('owners')
+	async owners(
+	    @Paginate() paginateParams: PaginateParams,
+	    @SortAndFilter(ownersConfig) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<TestOwner>> {
+		return this.ownerRepository
+			.createQueryBuilder('owner')
+			.sortAndFilter(sortAndFilterParams)
+			.paginate(paginateParams);
+	}
+
+	@Get('owners/cursor')
+	async ownersCursor(
+	    @Paginate({
+	      paginator: CursorPaginator,
+	    }) paginateParams: PaginateParams,
+	    @SortAndFilter(ownersConfig) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<TestOwner>> {
+		return this.ownerRepository
+			.createQueryBuilder('owner')
+			.sortAndFilter(sortAndFilterParams)
+			.paginate(paginateParams);
+	}
+
+	@Get('owners/repo')
+	async ownersRepo(
+	    @Paginate() paginateParams: PaginateParams,
+	    @SortAndFilter({
+	      sortable: ['name'],
+	      includable: ['related'],
+	    }) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<TestOwner>> {
+		return paginate(this.ownerRepository, paginateParams, sortAndFilter(sortAndFilterParams, this.ownerRepository));
+	}
+
+	@Get('aliased')
+	async aliased(
+	    @Paginate() paginateParams: PaginateParams,
+	    @SortAndFilter({
+	      sortable: ['label', 'relatedName', 'created'],
+	      filterable: ['label', 'relatedName', 'created'],
+	      defaultSort: { created: 'DESC' },
+	      aliases: {
+	        label: alias => `${alias}.name || ' <' || ${alias}.email || '>'`,
+	        relatedName: 'related.name',
+	        created: 'createdAt',
+	      },
+	    }) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<Test>> {
+		return this.testRepository
+			.createQueryBuilder('test')
+			.sortAndFilter(sortAndFilterParams)
+			.paginate(paginateParams);
+	}
+
+	@Get('count/:strategy')
+	async count(
+	    @Param('strategy') countStrategy: CountStrategy,
+	    @Paginate() paginateParams: PaginateParams,
+	    @SortAndFilter({ filterable: ['name'] }) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<Test>> {
+		return this.testRepository
+			.createQueryBuilder('test')
+			.sortAndFilter(sortAndFilterParams)
+			.paginate({ ...paginateParams, countStrategy, countCap: 3 });
+	}
+
+	@Get('brackets')
+	async brackets(
+	    @Paginate() paginateParams: PaginateParams,
 	    @SortAndFilter({
 	      sortable: ['name', 'email'],
-	      filterable: ['name', 'email', 'createdAt', 'related.name'],
+	      filterable: ['name', 'email', 'related.name'],
+	      parser: bracketParser(),
 	    }) sortAndFilterParams: SortAndFilterParams,
 	): Promise<Paginated<Test>> {
-		return paginate(this.testRepository, paginateParams, sortAndFilter(sortAndFilterParams));
+		return this.testRepository
+			.createQueryBuilder('test')
+			.sortAndFilter(sortAndFilterParams)
+			.paginate(paginateParams);
+	}
+
+	@Get('json')
+	async json(
+	    @Paginate() paginateParams: PaginateParams,
+	    @SortAndFilter({
+	      sortable: ['name', 'email'],
+	      filterable: ['name', 'email', 'related.name'],
+	      parser: jsonParser(),
+	      strict: true,
+	    }) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<Test>> {
+		return this.testRepository
+			.createQueryBuilder('test')
+			.sortAndFilter(sortAndFilterParams)
+			.paginate(paginateParams);
+	}
+
+	@Get('full-text')
+	async fullText(
+	    @Paginate({
+	      maxPageSize: 100
+	    }) paginateParams: PaginateParams,
+	    @SortAndFilter(fullTextConfig) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<Test>> {
+		return this.testRepository
+			.createQueryBuilder('test')
+			.sortAndFilter(sortAndFilterParams)
+			.paginate(paginateParams);
+	}
+
+	@Get('full-text/repo')
+	async fullTextRepo(
+	    @Paginate({
+	      maxPageSize: 100
+	    }) paginateParams: PaginateParams,
+	    @SortAndFilter(fullTextConfig) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<Test>> {
+		return paginate(this.testRepository, paginateParams, sortAndFilter(sortAndFilterParams, this.testRepository));
+	}
+
+	@Get('full-text/cursor')
+	async fullTextCursor(
+	    @Paginate({
+	      paginator: CursorPaginator,
+	    }) paginateParams: PaginateParams,
+	    @SortAndFilter(fullTextConfig) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<Test>> {
+		return this.testRepository
+			.createQueryBuilder('test')
+			.sortAndFilter(sortAndFilterParams)
+			.paginate(paginateParams);
+	}
+
+	@Get('cursor')
+	@ApiPaginate({ maxPageSize: 100, paginator: CursorPaginator })
+	async cursor(
+	    @Paginate({
+	      maxPageSize: 100,
+	      paginator: CursorPaginator,
+	    }) paginateParams: PaginateParams,
+	    @SortAndFilter({
+	      sortable: ['name', 'email', 'nickname'],
+	      filterable: ['name', 'email', 'nickname', 'createdAt', 'related.name'],
+	    }) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<Test>> {
+		return this.testRepository
+			.createQueryBuilder('test')
+			.sortAndFilter(sortAndFilterParams)
+			.paginate(paginateParams);
+	}
+
+	@Get('cursor/repo')
+	async cursorRepo(
+	    @Paginate({
+	      maxPageSize: 100,
+	      paginator: CursorPaginator,
+	    }) paginateParams: PaginateParams,
+	    @SortAndFilter({
+	      sortable: ['name', 'email', 'nickname'],
+	      filterable: ['name', 'email', 'nickname', 'createdAt', 'related.name'],
+	    }) sortAndFilterParams: SortAndFilterParams,
+	): Promise<Paginated<Test>> {
+		return paginate(this.testRepository, paginateParams, sortAndFilter(sortAndFilterParams, this.testRepository));
+	}
+
+	@Get('headers')
+	@PaginationHeaders()
+	async headers(
+	    @Paginate({
+	      maxPageSize: 100
+	    }) paginateParams: PaginateParams,
+	): Promise<Paginated<Test>> {
+		return paginate(this.testRepository, paginateParams);
+	}
+
+	@Get('json-api')
+	@ApiPaginate(jsonApiConfig)
+	async jsonApi(
+	    @Paginate(jsonApiConfig) paginateParams: PaginateParams,
+	): Promise<JsonApiDocument> {
+		return this.testRepository
+			.createQueryBuilder('test')
+			.paginate<JsonApiDocument>(paginateParams);
+	}
+
+	@Get('hal')
+	async hal(
+	    @Paginate({
+	      maxPageSize: 100,
+	      formatter: halFormatter('tests'),
+	    }) paginateParams: PaginateParams,
+	): Promise<HalCollection<Test>> {
+		return paginate<Test, HalCollection<Test>>(this.testRepository, paginateParams);
+	}
+
+	@Get('limit-offset')
+	@ApiPaginate({ maxPageSize: 100, paginator: LimitOffsetPaginator })
+	async limitOffset(
+	    @Paginate({
+	      maxPageSize: 100,
+	      paginator: LimitOffsetPaginator,
+	    }) paginateParams: PaginateParams,
+	): Promise<Paginated<Test>> {
+		return this.testRepository
+			.createQueryBuilder('test')
+			.paginate(paginateParams);
+	}
+
+	@Get('limit-offset/repo')
+	async limitOffsetRepo(
+	    @Paginate({
+	      maxPageSize: 100,
+	      paginator: LimitOffsetPaginator,
+	    }) paginateParams: PaginateParams,
+	): Promise<Paginated<Test>> {
+		return paginate(this.testRepository, paginateParams);
 	}
 }
\ No newline at end of file
@@ -1,17 +1,33 @@
+import { Field, Int, ObjectType } from "@nestjs/graphql";
 import { BaseEntity, Column, CreateDateColumn, Entity, JoinColumn, OneToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
 import { TestRelated } from "./test-related.entity";
 
+export enum TestStatus {
+	ACTIVE = 'active',
+	INACTIVE = 'inactive',
+}
+
 @Entity()
+@ObjectType()
 export class Test extends BaseEntity {
 	@PrimaryGeneratedColumn()
+	@Field(() => Int)
 	id: number;
 
 	@Column()
+	@Field()
 	name: string;
 
 	@Column()
+	@Field()
 	email: string;
 
+	@Column({ nullable: true })
+	nickname: string;
+
+	@Column({ type: 'enum', enum: TestStatus, default: TestStatus.ACTIVE })
+	status: TestStatus;
+
 	@UpdateDateColumn()
 	updatedAt: Date;
 
@@ -1,11 +1,14 @@
 import { Module } from "@nestjs/common";
 import { TypeOrmModule } from "@nestjs/typeorm";
+import { TestOwner } from "./test-owner.entity";
 import { TestRelated } from "./test-related.entity";
 import { TestController } from "./test.controller";
 import { Test } from "./test.entity";
+import { TestResolver } from "./test.resolver";
 
 @Module({
-	imports: [TypeOrmModule.forFeature([TestRelated, Test])],
-	controllers: [TestController]
+	imports: [TypeOrmModule.forFeature([TestOwner, TestRelated, Test])],
+	controllers: [TestController],
+	providers: [TestResolver],
 })
 export class TestModule {}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { ObjectType, Query, Resolver } from "@nestjs/graphql";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository } from "typeorm";
+import { Connection, GqlPaginate, GqlSortAndFilter, paginateConnection } from "../../graphql";
+import { CursorPaginator, PaginateParams } from "../../paginators";
+import { sortAndFilter, SortAndFilterParams } from "../../sort-and-filter";
+import { Test } from "./test.entity";
+
+@ObjectType()
+class TestConnection extends Connection(Test) {}
+
+@Resolver(() => Test)
+export class TestResolver {
+	constructor(@InjectRepository(Test) private readonly testRepository: Repository<Test>) {}
+
+	@Query(() => TestConnection)
+	async tests(
+		@GqlPaginate({
+			maxPageSize: 100,
+			paginator: CursorPaginator,
+		}) paginateParams: PaginateParams,
+		@GqlSortAndFilter({
+			sortable: ['name', 'email'],
+			filterable: ['name', 'email'],
+		}) sortAndFilterParams: SortAndFilterParams,
+	) {
+		return paginateConnection(
+			this.testRepository.createQueryBuilder('test').sortAndFilter(sortAndFilterParams),
+			paginateParams,
+		);
+	}
+
+	@Query(() => TestConnection)
+	async countedTests(
+		@GqlPaginate({
+			maxPageSize: 100,
+			paginator: CursorPaginator,
+			countStrategy: 'exact',
+		}) paginateParams: PaginateParams,
+		@GqlSortAndFilter({
+			sortable: ['name', 'email'],
+			filterable: ['name', 'email'],
+		}) sortAndFilterParams: SortAndFilterParams,
+	) {
+		return paginateConnection(this.testRepository, paginateParams, sortAndFilter(sortAndFilterParams, this.testRepository));
+	}
+
+	@Query(() => TestConnection)
+	async pagedTests(
+		@GqlPaginate({
+			maxPageSize: 100,
+		}) paginateParams: PaginateParams,
+		@GqlSortAndFilter({
+			sortable: ['name', 'email'],
+			filterable: ['name', 'email'],
+		}) sortAndFilterParams: SortAndFilterParams,
+	) {
+		return paginateConnection(this.testRepository, paginateParams, sortAndFilter(sortAndFilterParams, this.testRepository));
+	}
+}
@@ -0,0 +1,152 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import { ApiExtraModels, ApiOkResponse, ApiProperty, ApiPropertyOptional, ApiQuery, getSchemaPath } from '@nestjs/swagger';
+import { SchemaObject } from '@nestjs/swagger/dist/interfaces/open-api-spec.interface';
+import { CountStrategy } from './counts';
+import { resolveEntityConfig } from './entity-decorators';
+import { CursorPaginator, isPaginator, LimitOffsetPaginator, PagedPaginator, PaginateConfig } from './paginators';
+import { SearchOps, SortAndFilterConfig } from './sort-and-filter';
+
+// these live in their own entrypoint so @nestjs/swagger stays an optional
+// dependency, import them from 'nestjs-psf/dist/swagger'.
+
+export class PaginatedMeta {
+  @ApiPropertyOptional({ description: 'number of pages, for paged pagination' })
+  pageCount?: number;
+
+  @ApiPropertyOptional({ description: 'total number of results' })
+  count?: number;
+
+  @ApiPropertyOptional()
+  page?: number;
+
+  @ApiPropertyOptional()
+  pageSize?: number;
+
+  @ApiPropertyOptional()
+  limit?: number;
+
+  @ApiPropertyOptional()
+  offset?: number;
+
+  @ApiPropertyOptional({ enum: ['exact', 'capped', 'estimated', 'none'], description: 'how count was counted, capped counts below the cap are exact' })
+  countStrategy?: CountStrategy;
+
+  @ApiPropertyOptional({ description: 'whether there is a next page, for paged and limit offset pagination' })
+  hasNext?: boolean;
+}
+
+export class PaginatedLinks {
+  @ApiProperty({ nullable: true })
+  first: string;
+
+  @ApiProperty({ nullable: true })
+  next: string;
+
+  @ApiProperty({ nullable: true })
+  prev: string;
+
+  @ApiProperty({ nullable: true })
+  last: string;
+}
+
+function pageSizeSchema(config: PaginateConfig): SchemaObject {
+  return {
+    type: 'integer',
+    minimum: 1,
+    maximum: config.maxPageSize,
+    default: config.defaultPageSize || 10,
+  };
+}
+
+/**
+ * Documents the query params read by `@Paginate`, pass it the same config.
+ * The names follow the formatter's `queryParams`, e.g. `page[size]`.
+ */
+export function ApiPaginate(config: PaginateConfig = {}) {
+  const paginator = config.paginator || PagedPaginator;
+  const name = (param: string) => config.formatter?.queryParams?.[param] || param;
+
+  if (isPaginator(paginator, LimitOffsetPaginator)) {
+    return applyDecorators(
+      ApiQuery({ name: name('limit'), required: false, schema: pageSizeSchema(config), description: 'number of results to return' }),
+      ApiQuery({ name: name('offset'), required: false, schema: { type: 'integer', minimum: 0, default: 0 }, description: 'number of results to skip' }),
+    );
+  }
+
+  if (isPaginator(paginator, CursorPaginator)) {
+    return applyDecorators(
+      ApiQuery({ name: name('pageSize'), required: false, schema: pageSizeSchema(config) }),
+      ApiQuery({ name: name('after'), required: false, type: String, description: 'cursor to return results after, from `links.next`' }),
+      ApiQuery({ name: name('before'), required: false, type: String, description: 'cursor to return results before, from `links.prev`' }),
+    );
+  }
+
+  return applyDecorators(
+    ApiQuery({ name: name('page'), required: false, schema: { type: 'integer', minimum: 1, default: 1 } }),
+    ApiQuery({ name: name('pageSize'), required: false, schema: pageSizeSchema(config) }),
+  );
+}
+
+function filterableDescription(filterable: SortAndFilterConfig['filterable']) {
+  if (!filterable) {
+    return `Operators: ${Object.values(SearchOps).join(', ')}.`;
+  }
+
+  if (Array.isArray(filterable)) {
+    return `Filterable: ${filterable.join(', ')}. Operators: ${Object.values(SearchOps).join(', ')}.`;
+  }
+
+  const fields = Object.entries(filterable).map(([field, ops]) => `${field} (${ops.join(', ')})`);
+  return `Filterable: ${fields.join(', ') || 'none'}.`;
+}
+
+/**
+ * Documents the `sort` and `filter` query params read by `@SortAndFilter`,
+ * including the sortable and filterable attributes, pass it the same config.
+ */
+export function ApiSortAndFilter(options: SortAndFilterConfig = {}) {
+  const config = resolveEntityConfig(options);
+  let sortDescription = 'Comma separated attributes to sort by, prefix an attribute with `-` to sort descending.';
+  if (config.sortable) {
+    sortDescription += ` Sortable: ${config.sortable.join(', ') || 'none'}.`;
+  }
+
+  const filterDescription = 'Comma separated `attr__op:value` terms, combine them with `|` (or), `!` (not) and parentheses. '
+    + filterableDescription(config.filterable);
+
+  const queries = [
+    ApiQuery({ name: 'sort', required: false, type: String, description: sortDescription }),
+    ApiQuery({ name: 'filter', required: false, type: String, description: filterDescription }),
+  ];
+  if (config.selectable?.length) {
+    queries.push(ApiQuery({ name: 'fields', required: false, type: String, description: `Comma separated attributes to return. Selectable: ${config.selectable.join(', ')}.` }));
+  }
+  if (config.includable?.length) {
+    queries.push(ApiQuery({ name: 'include', required: false, type: String, description: `Comma separated relations to load. Includable: ${config.includable.join(', ')}.` }));
+  }
+  if (config.searchable?.length) {
+    queries.push(ApiQuery({ name: 'search', required: false, type: String, description: `Searches ${config.searchable.join(', ')}.` }));
+  }
+
+  return applyDecorators(...queries);
+}
+
+/**
+ * Documents a `Paginated<T>` response of the given entity or DTO.
+ */
+export function ApiPaginatedResponse(model: Type<any>) {
+  return applyDecorators(
+    ApiExtraModels(PaginatedMeta, PaginatedLinks, model),
+    ApiOkResponse({
+      schema: {
+        type: 'object',
+        required: ['results', 'meta', 'links'],
+        properties: {
+          results: { type: 'array', items: { $ref: getSchemaPath(model) } },
+          meta: { $ref: getSchemaPath(PaginatedMeta) },
+          links: { $ref: getSchemaPath(PaginatedLinks) },
+        },
+      },
+    }),
+  );
+}